@@ -0,0 +1,137 @@
+import { NextRequest } from "next/server";
+
+import { getOverallRisk, normalizeBarcode, normalizeRisk, slugify } from "@what-we-use/shared";
+
+import { findAlternatives } from "@/lib/alternatives";
+import { Identity, withAuth } from "@/lib/auth";
+import { corsPreflightResponse, jsonWithCors, withCors } from "@/lib/cors";
+import { isFirestoreConfigured } from "@/lib/firestore";
+import { getProductByBarcode } from "@/lib/products";
+import { enforceRateLimit } from "@/lib/rateLimit";
+
+type ScanIngredient = {
+  name?: unknown;
+  slug?: unknown;
+  risk?: unknown;
+  category?: unknown;
+};
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function OPTIONS(request: NextRequest): Promise<Response> {
+  return corsPreflightResponse(request, "alternatives");
+}
+
+function readIngredients(value: unknown) {
+  if (!Array.isArray(value)) return [];
+  return (value as ScanIngredient[])
+    .map((item) => {
+      const name = String(item?.name || "").trim();
+      const category = typeof item?.category === "string" ? item.category.trim() : "";
+      return {
+        name,
+        slug: slugify(String(item?.slug || name)),
+        risk: normalizeRisk(String(item?.risk || "")),
+        ...(category ? { category } : {})
+      };
+    })
+    .filter((item) => item.name && item.slug);
+}
+
+/**
+ * Takes a `scan` result from the client, a `barcode` of a stored product, or both; the
+ * product supplies its category and its last analysis when no scan is sent. Returns safer
+ * products and ingredient substitutes.
+ */
+async function handlePost(request: NextRequest, identity: Identity): Promise<Response> {
+  const limited = await enforceRateLimit(request, "alternatives", identity);
+  if (limited) return limited;
+
+  try {
+    const body = (await request.json()) as {
+      barcode?: unknown;
+      category?: unknown;
+      scan?: {
+        overallRisk?: unknown;
+        score?: { score?: unknown };
+        ingredients?: unknown;
+      };
+    };
+
+    let category = slugify(typeof body?.category === "string" ? body.category : "");
+    let ingredients = readIngredients(body?.scan?.ingredients);
+    let overallRisk =
+      typeof body?.scan?.overallRisk === "string"
+        ? normalizeRisk(body.scan.overallRisk)
+        : getOverallRisk(ingredients);
+    let score = typeof body?.scan?.score?.score === "number" ? body.scan.score.score : undefined;
+    let gtin: string | undefined;
+
+    if (body?.barcode !== undefined) {
+      gtin = normalizeBarcode(typeof body.barcode === "string" ? body.barcode : "") || undefined;
+      if (!gtin) {
+        return jsonWithCors(
+          { error: "barcode must be a valid EAN-8, UPC-A, EAN-13 or GTIN-14 code." },
+          { status: 400 }
+        );
+      }
+      if (!isFirestoreConfigured()) {
+        return jsonWithCors(
+          {
+            error:
+              "Firestore is not configured. Set FIREBASE_SERVICE_ACCOUNT_JSON or FIREBASE_SERVICE_ACCOUNT_PATH."
+          },
+          { status: 503 }
+        );
+      }
+
+      const product = await getProductByBarcode(gtin);
+      category = category || product?.category || "";
+      if (!ingredients.length) {
+        if (!product?.lastResult) {
+          return jsonWithCors({ error: "Product not found or not analyzed yet." }, { status: 404 });
+        }
+        ingredients = readIngredients(product.lastResult.ingredients);
+        overallRisk = product.lastResult.overallRisk;
+        score = product.lastResult.score?.score;
+      }
+    }
+
+    if (!ingredients.length) {
+      return jsonWithCors(
+        { error: "Body must include barcode:string or scan:{ ingredients }." },
+        { status: 400 }
+      );
+    }
+
+    const alternatives = await findAlternatives({
+      ingredients,
+      overallRisk,
+      ...(score !== undefined ? { score } : {}),
+      ...(category ? { category } : {}),
+      ...(gtin ? { gtin } : {})
+    });
+
+    return jsonWithCors({ ok: true, ...alternatives });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return jsonWithCors(
+        {
+          error: "Request body must be valid JSON."
+        },
+        { status: 400 }
+      );
+    }
+
+    return jsonWithCors(
+      {
+        error: "Failed to find alternatives.",
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withCors("alternatives", withAuth(handlePost));
@@ -1,26 +1,48 @@
 import { NextRequest } from "next/server";
 
-import { corsPreflightResponse, jsonWithCors } from "@/lib/cors";
-import { answerQuestionWithContext } from "@/lib/gemini";
+import { ChatMessage } from "@what-we-use/shared";
+
+import { Identity, withAuth } from "@/lib/auth";
+import {
+  ChatThread,
+  appendToThread,
+  createThread,
+  getChatThreadStore,
+  readMessages,
+  trimHistory
+} from "@/lib/chatThreads";
+import { corsPreflightResponse, jsonWithCors, withCors } from "@/lib/cors";
+import { answerQuestionWithContext, streamAnswerWithContext } from "@/lib/ai";
+import { LlmChatInput, ModelOutputError } from "@/lib/llm";
+import { enforceRateLimit } from "@/lib/rateLimit";
+import { CatalogPassage, retrieveCatalogPassages } from "@/lib/retrieval";
 
 type SourceRef = {
   title?: string;
   url?: string;
 };
 
+type ScanHazards = {
+  signalWord?: string;
+  hazardStatements?: Array<{ code?: string; text?: string; matched?: string }>;
+};
+
 type ScanIngredient = {
   name?: string;
+  slug?: string;
   risk?: string;
   notes?: string;
   regulatoryNotes?: string;
+  provenance?: string;
+  concentration?: { label?: string };
   sources?: SourceRef[];
 };
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-export async function OPTIONS(): Promise<Response> {
-  return corsPreflightResponse();
+export async function OPTIONS(request: NextRequest): Promise<Response> {
+  return corsPreflightResponse(request, "chat");
 }
 
 function normalizeSources(ingredients: ScanIngredient[]): SourceRef[] {
@@ -49,12 +71,25 @@ function normalizeSources(ingredients: ScanIngredient[]): SourceRef[] {
 function buildContext(input: {
   summary?: string;
   overallRisk?: string;
+  hazards?: ScanHazards;
   ingredients: ScanIngredient[];
+  passages: CatalogPassage[];
 }): string {
   const lines: string[] = [];
   if (input.summary) lines.push(`Summary: ${input.summary}`);
   if (input.overallRisk) lines.push(`Overall risk: ${input.overallRisk}`);
 
+  const signalWord = String(input.hazards?.signalWord || "").trim();
+  const statements = (
+    Array.isArray(input.hazards?.hazardStatements) ? input.hazards.hazardStatements : []
+  )
+    .map((item) => [item?.code, item?.text || item?.matched].filter(Boolean).join(" ").trim())
+    .filter(Boolean);
+  if (signalWord || statements.length) {
+    const parts = [signalWord ? `signal word ${signalWord.toUpperCase()}` : "", ...statements];
+    lines.push(`Label hazards: ${parts.filter(Boolean).join("; ")}`);
+  }
+
   if (input.ingredients.length) {
     lines.push("Ingredients:");
     for (const ingredient of input.ingredients) {
@@ -63,8 +98,12 @@ function buildContext(input: {
       const risk = String(ingredient.risk || "").trim();
       const notes = String(ingredient.notes || "").trim();
       const regulatoryNotes = String(ingredient.regulatoryNotes || "").trim();
+      const provenance = String(ingredient.provenance || "").trim();
+      const concentration = String(ingredient.concentration?.label || "").trim();
       const extras = [
         risk ? `risk: ${risk}` : "",
+        concentration ? `amount: ${concentration}` : "",
+        provenance ? `risk source: ${provenance}` : "",
         notes ? `notes: ${notes}` : "",
         regulatoryNotes ? `regulatory: ${regulatoryNotes}` : ""
       ]
@@ -74,16 +113,195 @@ function buildContext(input: {
     }
   }
 
+  if (input.passages.length) {
+    lines.push("Catalog records:");
+    for (const passage of input.passages) {
+      lines.push(`- ${passage.text}`);
+    }
+  }
+
   return lines.join("\n");
 }
 
-export async function POST(request: NextRequest): Promise<Response> {
+const NO_ANSWER = "I don't have enough proof to answer that.";
+
+function matchSources(sources: SourceRef[], sourceTitles: string[] | undefined): SourceRef[] {
+  const sourceByTitle = new Map<string, SourceRef>();
+  for (const source of sources) {
+    const title = String(source.title || "").trim();
+    if (!title) continue;
+    const key = title.toLowerCase();
+    if (!sourceByTitle.has(key)) {
+      sourceByTitle.set(key, source);
+    }
+  }
+
+  return sourceTitles
+    ? sourceTitles
+        .map((title) => title.trim())
+        .map((title) => sourceByTitle.get(title.toLowerCase()))
+        .filter((item): item is SourceRef => Boolean(item))
+    : [];
+}
+
+function describeChatError(error: unknown): { status: number; body: Record<string, unknown> } {
+  if (error instanceof ModelOutputError) {
+    return {
+      status: 502,
+      body: {
+        error: "The analysis model returned an unusable response.",
+        details: error.message,
+        code: error.code,
+        issues: error.issues
+      }
+    };
+  }
+
+  return {
+    status: 500,
+    body: {
+      error: "Failed to answer question.",
+      details: error instanceof Error ? error.message : String(error)
+    }
+  };
+}
+
+function wantsStream(request: NextRequest, body: { stream?: unknown }): boolean {
+  return body?.stream === true || /text\/event-stream/i.test(request.headers.get("accept") || "");
+}
+
+function threadOwner(identity: Exclude<Identity, { kind: "anonymous" }>): string {
+  return identity.kind === "user" ? `user:${identity.uid}` : `key:${identity.keyId}`;
+}
+
+/**
+ * Loads the conversation so far. Client-supplied `messages` win; otherwise `threadId` picks
+ * a server-stored thread, and `newThread: true` starts one. Anything else is a stateless
+ * single question, so nothing is written. Anonymous callers all share one owner, so they
+ * can't use stored threads at all.
+ */
+async function loadConversation(
+  body: { messages?: unknown; threadId?: unknown; newThread?: unknown },
+  identity: Identity
+): Promise<
+  { history: ChatMessage[]; thread: ChatThread | null } | { error: string; status: number }
+> {
+  if (Array.isArray(body?.messages)) {
+    return { history: readMessages(body.messages), thread: null };
+  }
+
+  const threadId = typeof body?.threadId === "string" ? body.threadId.trim() : "";
+  const store = getChatThreadStore();
+  if (!store || (!threadId && body?.newThread !== true)) return { history: [], thread: null };
+
+  if (identity.kind === "anonymous") {
+    return {
+      error:
+        "Stored chat threads need a Firebase ID token or an X-Api-Key header. Send messages instead.",
+      status: 401
+    };
+  }
+
+  const owner = threadOwner(identity);
+  if (!threadId) return { history: [], thread: createThread(owner) };
+
+  const thread = await store.get(threadId);
+  if (!thread || thread.owner !== owner) return { error: "Chat thread not found.", status: 404 };
+  return { history: thread.messages, thread };
+}
+
+/** Stores the new turn on a server-side thread and returns its id for the client. */
+async function saveTurn(
+  thread: ChatThread | null,
+  question: string,
+  reply: { answer: string; sources: SourceRef[] }
+): Promise<{ threadId?: string }> {
+  const store = getChatThreadStore();
+  if (!thread || !store) return {};
+
+  try {
+    await store.set(
+      appendToThread(thread, [
+        { role: "user", content: question },
+        { role: "assistant", content: reply.answer, sources: reply.sources }
+      ])
+    );
+  } catch {
+    // The answer is still useful without history; the next turn starts from what was saved.
+  }
+  return { threadId: thread.id };
+}
+
+/**
+ * Server-sent events: `delta` events carry answer text as it is generated, then a single
+ * `done` event carries the final answer and matched sources (or `error` if it failed).
+ * The final answer is authoritative; it can differ from the deltas after a repair retry.
+ */
+function streamAnswer(
+  input: LlmChatInput,
+  sources: SourceRef[],
+  thread: ChatThread | null,
+  signal: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  // Set once the client disconnects; enqueue and close throw on a cancelled stream.
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        const response = await streamAnswerWithContext(
+          input,
+          (text) => send("delta", { text }),
+          signal
+        );
+        const reply = {
+          answer: response.answer || NO_ANSWER,
+          sources: matchSources(sources, response.sourceTitles)
+        };
+        send("done", { ...reply, ...(await saveTurn(thread, input.question, reply)) });
+      } catch (error) {
+        send("error", describeChatError(error).body);
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "X-Accel-Buffering": "no"
+    }
+  });
+}
+
+async function handlePost(request: NextRequest, identity: Identity): Promise<Response> {
+  const limited = await enforceRateLimit(request, "chat", identity);
+  if (limited) return limited;
+
   try {
     const body = (await request.json()) as {
       question?: unknown;
+      stream?: unknown;
+      threadId?: unknown;
+      newThread?: unknown;
+      messages?: unknown;
       scan?: {
         summary?: unknown;
         overallRisk?: unknown;
+        hazards?: unknown;
         ingredients?: unknown;
       };
     };
@@ -99,43 +317,51 @@ export async function POST(request: NextRequest): Promise<Response> {
     const summary = typeof body?.scan?.summary === "string" ? body.scan?.summary.trim() : "";
     const overallRisk =
       typeof body?.scan?.overallRisk === "string" ? body.scan?.overallRisk.trim() : "";
+    const hazards =
+      body?.scan?.hazards && typeof body.scan.hazards === "object"
+        ? (body.scan.hazards as ScanHazards)
+        : undefined;
 
-    const sources = normalizeSources(ingredients);
-    const context = buildContext({ summary, overallRisk, ingredients });
+    const conversation = await loadConversation(body, identity);
+    if ("error" in conversation) {
+      return jsonWithCors({ error: conversation.error }, { status: conversation.status });
+    }
 
-    const response = await answerQuestionWithContext({
-      question,
-      context,
-      sourceTitles: sources.map((item) => item.title).filter(Boolean) as string[]
+    const history = trimHistory(conversation.history);
+    // The last question is searched too, so follow-ups keep the ingredient they were about.
+    const previousQuestion = [...history].reverse().find((item) => item.role === "user");
+    const passages = await retrieveCatalogPassages({
+      queries: [question, previousQuestion?.content || ""],
+      scanSlugs: ingredients.map((item) => String(item.slug || item.name || ""))
     });
 
-    const sourceByTitle = new Map<string, SourceRef>();
-    for (const source of sources) {
-      const title = String(source.title || "").trim();
-      if (!title) continue;
-      const key = title.toLowerCase();
-      if (!sourceByTitle.has(key)) {
-        sourceByTitle.set(key, source);
-      }
+    // Catalog sources go through the same title matching as the scan's own sources.
+    const sources = normalizeSources([...ingredients, ...passages]);
+    const input: LlmChatInput = {
+      question,
+      context: buildContext({ summary, overallRisk, hazards, ingredients, passages }),
+      sourceTitles: sources.map((item) => item.title).filter(Boolean) as string[],
+      history
+    };
+
+    if (wantsStream(request, body)) {
+      return streamAnswer(input, sources, conversation.thread, request.signal);
     }
-    const matchedSources = response.sourceTitles
-      ? response.sourceTitles
-          .map((title) => title.trim())
-          .map((title) => sourceByTitle.get(title.toLowerCase()))
-          .filter((item): item is SourceRef => Boolean(item))
-      : [];
+
+    const response = await answerQuestionWithContext(input);
+    const reply = {
+      answer: response.answer || NO_ANSWER,
+      sources: matchSources(sources, response.sourceTitles)
+    };
 
     return jsonWithCors({
-      answer: response.answer || "I don't have enough proof to answer that.",
-      sources: matchedSources
+      ...reply,
+      ...(await saveTurn(conversation.thread, question, reply))
     });
   } catch (error) {
-    return jsonWithCors(
-      {
-        error: "Failed to answer question.",
-        details: error instanceof Error ? error.message : String(error)
-      },
-      { status: 500 }
-    );
+    const { status, body } = describeChatError(error);
+    return jsonWithCors(body, { status });
   }
 }
+
+export const POST = withCors("chat", withAuth(handlePost));
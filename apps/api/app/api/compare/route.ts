@@ -0,0 +1,163 @@
+import { NextRequest } from "next/server";
+
+import {
+  CompareInput,
+  compareScanResults,
+  getOverallRisk,
+  normalizeBarcode,
+  normalizeRisk,
+  readSensitivityProfiles,
+  slugify
+} from "@what-we-use/shared";
+
+import { Identity, withAuth } from "@/lib/auth";
+import { corsPreflightResponse, jsonWithCors, withCors } from "@/lib/cors";
+import { isFirestoreConfigured } from "@/lib/firestore";
+import { getProductByBarcode } from "@/lib/products";
+import { enforceRateLimit } from "@/lib/rateLimit";
+import { personalizeScanResult } from "@/lib/scan";
+
+type CompareItem = {
+  label?: unknown;
+  barcode?: unknown;
+  scan?: {
+    overallRisk?: unknown;
+    score?: { score?: unknown };
+    hazards?: { signalWord?: unknown };
+    ingredients?: unknown;
+  };
+};
+
+type ScanIngredient = {
+  name?: unknown;
+  slug?: unknown;
+  risk?: unknown;
+};
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_PRODUCTS = 6;
+
+export async function OPTIONS(request: NextRequest): Promise<Response> {
+  return corsPreflightResponse(request, "compare");
+}
+
+function readScan(scan: CompareItem["scan"]): CompareInput["result"] | null {
+  const ingredients = Array.isArray(scan?.ingredients)
+    ? (scan.ingredients as ScanIngredient[])
+        .map((item) => {
+          const name = String(item?.name || "").trim();
+          return {
+            name,
+            slug: slugify(String(item?.slug || name)),
+            risk: normalizeRisk(String(item?.risk || ""))
+          };
+        })
+        .filter((item) => item.name && item.slug)
+    : [];
+  if (!ingredients.length) return null;
+
+  const signalWord = scan?.hazards?.signalWord;
+  return {
+    ingredients,
+    overallRisk:
+      typeof scan?.overallRisk === "string"
+        ? normalizeRisk(scan.overallRisk)
+        : getOverallRisk(ingredients),
+    ...(typeof scan?.score?.score === "number" ? { score: { score: scan.score.score } } : {}),
+    ...(signalWord === "danger" || signalWord === "warning" ? { hazards: { signalWord } } : {})
+  };
+}
+
+/**
+ * Compares two or more products side by side. Each entry of `products` is a `scan` result
+ * from the client or the `barcode` of a stored, analyzed product; `label` names it in the
+ * verdict. Returns aligned ingredient rows, per-product scores and a plain-language verdict.
+ */
+async function handlePost(request: NextRequest, identity: Identity): Promise<Response> {
+  const limited = await enforceRateLimit(request, "compare", identity);
+  if (limited) return limited;
+
+  try {
+    const body = (await request.json()) as { products?: unknown; sensitivities?: unknown };
+    const items = Array.isArray(body?.products) ? (body.products as CompareItem[]) : [];
+    if (items.length < 2 || items.length > MAX_PRODUCTS) {
+      return jsonWithCors(
+        { error: `Body must include products: an array of 2 to ${MAX_PRODUCTS} entries.` },
+        { status: 400 }
+      );
+    }
+
+    // Barcode results are stored unpersonalized; client scans already carry the profile.
+    const sensitivities = readSensitivityProfiles(body?.sensitivities);
+    const inputs: CompareInput[] = [];
+
+    for (const [index, item] of items.entries()) {
+      const label = typeof item?.label === "string" ? item.label.trim() : "";
+      const scan = readScan(item?.scan);
+      if (scan) {
+        inputs.push({ label: label || `Product ${index + 1}`, result: scan });
+        continue;
+      }
+
+      if (item?.barcode === undefined) {
+        return jsonWithCors(
+          { error: `products[${index}] must include barcode:string or scan:{ ingredients }.` },
+          { status: 400 }
+        );
+      }
+      const gtin = normalizeBarcode(typeof item.barcode === "string" ? item.barcode : "");
+      if (!gtin) {
+        return jsonWithCors(
+          {
+            error: `products[${index}].barcode must be a valid EAN-8, UPC-A, EAN-13 or GTIN-14 code.`
+          },
+          { status: 400 }
+        );
+      }
+      if (!isFirestoreConfigured()) {
+        return jsonWithCors(
+          {
+            error:
+              "Firestore is not configured. Set FIREBASE_SERVICE_ACCOUNT_JSON or FIREBASE_SERVICE_ACCOUNT_PATH."
+          },
+          { status: 503 }
+        );
+      }
+
+      const product = await getProductByBarcode(gtin);
+      if (!product?.lastResult) {
+        return jsonWithCors(
+          { error: `Product ${gtin} not found or not analyzed yet.` },
+          { status: 404 }
+        );
+      }
+      inputs.push({
+        label: label || product.name,
+        result: personalizeScanResult(product.lastResult, sensitivities)
+      });
+    }
+
+    return jsonWithCors({ ok: true, ...compareScanResults(inputs) });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return jsonWithCors(
+        {
+          error: "Request body must be valid JSON."
+        },
+        { status: 400 }
+      );
+    }
+
+    return jsonWithCors(
+      {
+        error: "Failed to compare products.",
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withCors("compare", withAuth(handlePost));
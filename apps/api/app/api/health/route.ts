@@ -1,15 +1,19 @@
-import { corsPreflightResponse, jsonWithCors } from "@/lib/cors";
+import { NextRequest } from "next/server";
+
+import { corsPreflightResponse, jsonWithCors, withCors } from "@/lib/cors";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-export async function OPTIONS(): Promise<Response> {
-  return corsPreflightResponse();
+export async function OPTIONS(request: NextRequest): Promise<Response> {
+  return corsPreflightResponse(request, "health");
 }
 
-export async function GET(): Promise<Response> {
+async function handleGet(): Promise<Response> {
   return jsonWithCors({
     ok: true,
     service: "what-we-use-api"
   });
 }
+
+export const GET = withCors("health", handleGet);
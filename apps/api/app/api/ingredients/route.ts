@@ -1,42 +1,89 @@
 import { NextRequest } from "next/server";
 
-import { slugify } from "@what-we-use/shared";
+import { IngredientRisk, slugify } from "@what-we-use/shared";
 
-import { corsPreflightResponse, jsonWithCors } from "@/lib/cors";
-import { getIngredientBySlug, isFirestoreConfigured } from "@/lib/firestore";
+import { corsPreflightResponse, jsonWithCors, withCors } from "@/lib/cors";
+import { findIngredientByName, isFirestoreConfigured } from "@/lib/firestore";
+import { searchIngredients } from "@/lib/ingredientSearch";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-export async function OPTIONS(): Promise<Response> {
-  return corsPreflightResponse();
+const FIRESTORE_REQUIRED =
+  "Firestore is not configured. Set FIREBASE_SERVICE_ACCOUNT_JSON or FIREBASE_SERVICE_ACCOUNT_PATH.";
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 50;
+const RISKS: IngredientRisk[] = ["safe", "caution", "avoid"];
+
+export async function OPTIONS(request: NextRequest): Promise<Response> {
+  return corsPreflightResponse(request, "ingredients");
+}
+
+function readInteger(value: string | null, fallback: number): number | null {
+  if (value === null || value.trim() === "") return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
 }
 
-export async function GET(request: NextRequest): Promise<Response> {
+/**
+ * `?q=laureth&category=surfactant&risk=caution&limit=20&offset=0` ranks exact matches, then
+ * name and alias prefixes, then substrings. Leaving out `q` browses the filtered catalog.
+ */
+async function handleSearch(request: NextRequest): Promise<Response> {
+  const params = request.nextUrl.searchParams;
+  const risk = params.get("risk") || "";
+  if (risk && !RISKS.includes(risk as IngredientRisk)) {
+    return jsonWithCors({ error: "risk must be safe, caution or avoid." }, { status: 400 });
+  }
+
+  const limit = readInteger(params.get("limit"), DEFAULT_SEARCH_LIMIT);
+  const offset = readInteger(params.get("offset"), 0);
+  if (limit === null || limit < 1 || limit > MAX_SEARCH_LIMIT || offset === null) {
+    return jsonWithCors(
+      {
+        error: `limit must be 1 to ${MAX_SEARCH_LIMIT} and offset a non-negative integer.`
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!isFirestoreConfigured()) {
+    return jsonWithCors({ error: FIRESTORE_REQUIRED }, { status: 503 });
+  }
+
+  const category = slugify(params.get("category") || "");
+  const result = await searchIngredients({
+    query: params.get("q") || "",
+    ...(category ? { category } : {}),
+    ...(risk ? { risk: risk as IngredientRisk } : {}),
+    offset,
+    limit
+  });
+
+  return jsonWithCors({ ok: true, ...result });
+}
+
+async function handleGet(request: NextRequest): Promise<Response> {
   try {
-    const slugParam = request.nextUrl.searchParams.get("slug");
-    const slug = slugify(String(slugParam || ""));
+    const params = request.nextUrl.searchParams;
+    if (!params.has("slug") && !params.has("name")) return await handleSearch(request);
 
+    const slugParam = params.get("slug") || params.get("name");
+    const slug = slugify(String(slugParam || ""));
     if (!slug) {
       return jsonWithCors(
         {
-          error: "Missing slug query parameter."
+          error: "Missing slug or name query parameter."
         },
         { status: 400 }
       );
     }
 
     if (!isFirestoreConfigured()) {
-      return jsonWithCors(
-        {
-          error:
-            "Firestore is not configured. Set FIREBASE_SERVICE_ACCOUNT_JSON or FIREBASE_SERVICE_ACCOUNT_PATH."
-        },
-        { status: 503 }
-      );
+      return jsonWithCors({ error: FIRESTORE_REQUIRED }, { status: 503 });
     }
 
-    const ingredient = await getIngredientBySlug(slug);
+    const ingredient = await findIngredientByName(String(slugParam));
     if (!ingredient) {
       return jsonWithCors(
         {
@@ -48,7 +95,8 @@ export async function GET(request: NextRequest): Promise<Response> {
 
     return jsonWithCors({
       ok: true,
-      ingredient
+      ingredient,
+      matchedAlias: ingredient.matchedAlias || null
     });
   } catch (error) {
     return jsonWithCors(
@@ -60,3 +108,5 @@ export async function GET(request: NextRequest): Promise<Response> {
     );
   }
 }
+
+export const GET = withCors("ingredients", handleGet);
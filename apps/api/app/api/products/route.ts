@@ -0,0 +1,167 @@
+import { NextRequest } from "next/server";
+
+import { normalizeBarcode, readSensitivityProfiles, slugify } from "@what-we-use/shared";
+
+import { Identity, withAuth } from "@/lib/auth";
+import { corsPreflightResponse, jsonWithCors, withCors } from "@/lib/cors";
+import { isFirestoreConfigured } from "@/lib/firestore";
+import { ProductExistsError, getProductByBarcode, saveProduct } from "@/lib/products";
+import { enforceRateLimit } from "@/lib/rateLimit";
+import { createScanResult, personalizeScanResult } from "@/lib/scan";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const FIRESTORE_REQUIRED =
+  "Firestore is not configured. Set FIREBASE_SERVICE_ACCOUNT_JSON or FIREBASE_SERVICE_ACCOUNT_PATH.";
+const INVALID_BARCODE = "barcode must be a valid EAN-8, UPC-A, EAN-13 or GTIN-14 code.";
+const UPDATE_REQUIRES_AUTH =
+  "This product already exists. Send a Firebase ID token or an X-Api-Key header to update it.";
+
+export async function OPTIONS(request: NextRequest): Promise<Response> {
+  return corsPreflightResponse(request, "products");
+}
+
+async function handleGet(request: NextRequest, identity: Identity): Promise<Response> {
+  const limited = await enforceRateLimit(request, "product-lookup", identity);
+  if (limited) return limited;
+
+  try {
+    const barcode = request.nextUrl.searchParams.get("barcode") || "";
+    if (!barcode.trim()) {
+      return jsonWithCors({ error: "Missing barcode query parameter." }, { status: 400 });
+    }
+
+    const gtin = normalizeBarcode(barcode);
+    if (!gtin) {
+      return jsonWithCors({ error: INVALID_BARCODE }, { status: 400 });
+    }
+
+    if (!isFirestoreConfigured()) {
+      return jsonWithCors({ error: FIRESTORE_REQUIRED }, { status: 503 });
+    }
+
+    const product = await getProductByBarcode(gtin);
+    if (!product) {
+      return jsonWithCors({ error: "Product not found." }, { status: 404 });
+    }
+
+    // ?sensitivities=asthma,fragrance personalizes the stored result like a fresh scan.
+    const sensitivities = readSensitivityProfiles(
+      String(request.nextUrl.searchParams.get("sensitivities") || "").split(",")
+    );
+
+    return jsonWithCors({
+      ok: true,
+      product: product.lastResult
+        ? { ...product, lastResult: personalizeScanResult(product.lastResult, sensitivities) }
+        : product
+    });
+  } catch (error) {
+    return jsonWithCors(
+      {
+        error: "Failed to fetch product.",
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Creates or updates a product by barcode. When `labelText` is new (or the product has no
+ * analysis yet) it is scanned and the result is saved on the product, so the next lookup of
+ * the barcode can skip OCR and the model entirely. Records are shared by every user, so
+ * anonymous callers may only create missing products, never overwrite existing ones.
+ */
+async function handlePost(request: NextRequest, identity: Identity): Promise<Response> {
+  const limited = await enforceRateLimit(request, "products", identity);
+  if (limited) return limited;
+
+  try {
+    const body = (await request.json()) as {
+      barcode?: unknown;
+      name?: unknown;
+      brand?: unknown;
+      category?: unknown;
+      labelText?: unknown;
+    };
+
+    const gtin = normalizeBarcode(typeof body?.barcode === "string" ? body.barcode : "");
+    if (!gtin) {
+      return jsonWithCors({ error: INVALID_BARCODE }, { status: 400 });
+    }
+
+    if (!isFirestoreConfigured()) {
+      return jsonWithCors({ error: FIRESTORE_REQUIRED }, { status: 503 });
+    }
+
+    const existing = await getProductByBarcode(gtin);
+    const anonymous = identity.kind === "anonymous";
+    if (existing && anonymous) {
+      return jsonWithCors(
+        { error: UPDATE_REQUIRES_AUTH },
+        { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+      );
+    }
+    const name = (typeof body?.name === "string" ? body.name.trim() : "") || existing?.name;
+    if (!name) {
+      return jsonWithCors({ error: "Missing name for a new product." }, { status: 400 });
+    }
+    const brand = typeof body?.brand === "string" ? body.brand.trim() : "";
+    const category = slugify(typeof body?.category === "string" ? body.category : "");
+    const labelText = typeof body?.labelText === "string" ? body.labelText.trim() : "";
+
+    const needsAnalysis =
+      Boolean(labelText) && (labelText !== existing?.labelText || !existing?.lastResult);
+    const result = needsAnalysis ? await createScanResult({ text: labelText }) : undefined;
+    // A result degraded by a model or catalog outage isn't worth keeping on the product.
+    const degraded =
+      result?.meta?.aiError ||
+      result?.meta?.catalogReadFailures ||
+      result?.meta?.catalogIndexUnavailable;
+
+    const product = await saveProduct({
+      gtin,
+      name,
+      ...(brand ? { brand } : {}),
+      ...(category ? { category } : {}),
+      ...(labelText ? { labelText } : {}),
+      ...(result && !degraded ? { result } : {}),
+      ...(anonymous ? { createOnly: true } : {})
+    });
+
+    return jsonWithCors(
+      { ok: true, product, ...(result ? { result } : {}) },
+      { status: existing ? 200 : 201 }
+    );
+  } catch (error) {
+    if (error instanceof ProductExistsError) {
+      // Another caller created the product while this request was analyzing its label.
+      return jsonWithCors(
+        { error: UPDATE_REQUIRES_AUTH },
+        { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return jsonWithCors(
+        {
+          error: "Request body must be valid JSON."
+        },
+        { status: 400 }
+      );
+    }
+
+    return jsonWithCors(
+      {
+        error: "Failed to save product.",
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withCors("products", withAuth(handleGet));
+export const POST = withCors("products", withAuth(handlePost));
@@ -0,0 +1,148 @@
+import { NextRequest } from "next/server";
+
+import { readSensitivityProfiles } from "@what-we-use/shared";
+
+import { Identity, withAuth } from "@/lib/auth";
+import { corsPreflightResponse, jsonWithCors, withCors } from "@/lib/cors";
+import { analyzeImagesForScan } from "@/lib/ai";
+import { ModelOutputError } from "@/lib/llm";
+import { enforceRateLimit } from "@/lib/rateLimit";
+import { createScanResult } from "@/lib/scan";
+
+type ScanImage = {
+  data: string;
+  mimeType: string;
+  label?: "front" | "back";
+};
+
+const MAX_IMAGES = 4;
+// Decoded sizes. Base64 adds a third, so 3 MB of images is about 4 MB of JSON: under
+// Vercel's 4.5 MB request body limit, which would otherwise reject the upload before this
+// route could explain why.
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 3 * 1024 * 1024;
+const ALLOWED_MIME_TYPES = new Set([
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/heif"
+]);
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function OPTIONS(request: NextRequest): Promise<Response> {
+  return corsPreflightResponse(request, "scan-image");
+}
+
+function decodedSize(base64: string): number {
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+function parseImages(value: unknown): { images: ScanImage[] } | { error: string; status?: number } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: "Body must include images:[{ data, mimeType, label }]." };
+  }
+  if (value.length > MAX_IMAGES) {
+    return { error: `At most ${MAX_IMAGES} images can be analyzed per request.` };
+  }
+
+  const images: ScanImage[] = [];
+  let totalBytes = 0;
+
+  for (const [index, item] of value.entries()) {
+    const record = (item || {}) as { data?: unknown; mimeType?: unknown; label?: unknown };
+    const raw = typeof record.data === "string" ? record.data.trim() : "";
+    // Accept data URLs as produced by FileReader and expo-image-manipulator.
+    const dataUrl = raw.match(/^data:([^;,]+);base64,(.*)$/s);
+    const data = (dataUrl ? dataUrl[2] : raw).replace(/\s+/g, "");
+    const mimeType = String(record.mimeType || dataUrl?.[1] || "image/jpeg")
+      .trim()
+      .toLowerCase();
+
+    if (!data || !/^[A-Za-z0-9+/]+={0,2}$/.test(data)) {
+      return { error: `Image ${index + 1} must be base64-encoded.` };
+    }
+    if (!ALLOWED_MIME_TYPES.has(mimeType)) {
+      return { error: `Image ${index + 1} has unsupported mimeType ${mimeType}.` };
+    }
+
+    const size = decodedSize(data);
+    if (size > MAX_IMAGE_BYTES) {
+      return {
+        error: `Image ${index + 1} exceeds ${MAX_IMAGE_BYTES / (1024 * 1024)} MB.`,
+        status: 413
+      };
+    }
+    totalBytes += size;
+    if (totalBytes > MAX_TOTAL_BYTES) {
+      return {
+        error: `Images exceed ${MAX_TOTAL_BYTES / (1024 * 1024)} MB in total.`,
+        status: 413
+      };
+    }
+
+    const label = record.label === "front" || record.label === "back" ? record.label : undefined;
+    images.push({ data, mimeType, ...(label ? { label } : {}) });
+  }
+
+  return { images };
+}
+
+async function handlePost(request: NextRequest, identity: Identity): Promise<Response> {
+  const limited = await enforceRateLimit(request, "scan-image", identity);
+  if (limited) return limited;
+
+  try {
+    const body = (await request.json()) as {
+      images?: unknown;
+      sensitivities?: unknown;
+    };
+
+    const parsed = parseImages(body?.images);
+    if ("error" in parsed) {
+      return jsonWithCors({ error: parsed.error }, { status: parsed.status || 400 });
+    }
+
+    const aiData = await analyzeImagesForScan(parsed.images);
+    const result = await createScanResult({
+      aiData,
+      sensitivities: readSensitivityProfiles(body?.sensitivities)
+    });
+
+    return jsonWithCors(result);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return jsonWithCors(
+        {
+          error: "Request body must be valid JSON."
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ModelOutputError) {
+      return jsonWithCors(
+        {
+          error: "The analysis model returned an unusable response.",
+          details: error.message,
+          code: error.code,
+          issues: error.issues
+        },
+        { status: 502 }
+      );
+    }
+
+    return jsonWithCors(
+      {
+        error: "Failed to analyze images.",
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withCors("scan-image", withAuth(handlePost));
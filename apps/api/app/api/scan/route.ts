@@ -1,20 +1,28 @@
 import { NextRequest } from "next/server";
 
-import { corsPreflightResponse, jsonWithCors } from "@/lib/cors";
+import { readSensitivityProfiles } from "@what-we-use/shared";
+
+import { Identity, withAuth } from "@/lib/auth";
+import { corsPreflightResponse, jsonWithCors, withCors } from "@/lib/cors";
+import { enforceRateLimit } from "@/lib/rateLimit";
 import { createScanResult } from "@/lib/scan";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-export async function OPTIONS(): Promise<Response> {
-  return corsPreflightResponse();
+export async function OPTIONS(request: NextRequest): Promise<Response> {
+  return corsPreflightResponse(request, "scan");
 }
 
-export async function POST(request: NextRequest): Promise<Response> {
+async function handlePost(request: NextRequest, identity: Identity): Promise<Response> {
+  const limited = await enforceRateLimit(request, "scan", identity);
+  if (limited) return limited;
+
   try {
     const body = (await request.json()) as {
       text?: unknown;
       ingredients?: unknown;
+      sensitivities?: unknown;
     };
 
     const text = typeof body?.text === "string" ? body.text.trim() : "";
@@ -33,7 +41,8 @@ export async function POST(request: NextRequest): Promise<Response> {
 
     const result = await createScanResult({
       text: text || undefined,
-      ingredients: ingredients.length ? ingredients : undefined
+      ingredients: ingredients.length ? ingredients : undefined,
+      sensitivities: readSensitivityProfiles(body?.sensitivities)
     });
 
     return jsonWithCors(result);
@@ -56,3 +65,5 @@ export async function POST(request: NextRequest): Promise<Response> {
     );
   }
 }
+
+export const POST = withCors("scan", withAuth(handlePost));
@@ -2,7 +2,7 @@ export default function HomePage(): JSX.Element {
   return (
     <main style={{ fontFamily: "sans-serif", padding: 24 }}>
       <h1>What We Use API</h1>
-      <p>Use /api/health, /api/ingredients?slug=..., and /api/scan.</p>
+      <p>Use /api/health, /api/ingredients?slug=..., /api/scan, and /api/scan/image.</p>
     </main>
   );
 }
@@ -0,0 +1,62 @@
+import { geminiProvider } from "./gemini";
+import { LlmChatInput, LlmChatOutput, LlmImage, LlmProvider, LlmScanOutput } from "./llm";
+import { localProvider } from "./localProvider";
+import { openAiProvider } from "./openai";
+
+const PROVIDERS: Record<string, LlmProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  local: localProvider
+};
+
+export function getLlmProvider(): LlmProvider {
+  const name = String(process.env.LLM_PROVIDER || "gemini")
+    .trim()
+    .toLowerCase();
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${name}". Use one of: ${Object.keys(PROVIDERS).join(", ")}.`
+    );
+  }
+  return provider;
+}
+
+export function isLlmConfigured(): boolean {
+  try {
+    return getLlmProvider().isConfigured();
+  } catch {
+    return false;
+  }
+}
+
+export function analyzeIngredients(input: {
+  text?: string;
+  ingredients?: string[];
+}): Promise<LlmScanOutput> {
+  return getLlmProvider().analyzeText(input);
+}
+
+export function analyzeImagesForScan(images: LlmImage[]): Promise<LlmScanOutput> {
+  return getLlmProvider().extractFromImages(images);
+}
+
+export function answerQuestionWithContext(input: LlmChatInput): Promise<LlmChatOutput> {
+  return getLlmProvider().answerQuestion(input);
+}
+
+/** Streams answer text when the provider supports it, otherwise reports the whole answer once. */
+export async function streamAnswerWithContext(
+  input: LlmChatInput,
+  onAnswerText: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<LlmChatOutput> {
+  const provider = getLlmProvider();
+  if (provider.streamAnswer) {
+    return provider.streamAnswer(input, onAnswerText, signal);
+  }
+
+  const output = await provider.answerQuestion(input);
+  if (output.answer) onAnswerText(output.answer);
+  return output;
+}
@@ -0,0 +1,145 @@
+import {
+  AlternativesResult,
+  Ingredient,
+  IngredientRisk,
+  IngredientSubstitute,
+  ProductAlternative
+} from "@what-we-use/shared";
+
+import { IngredientSummary, getIngredientSummaries, isFirestoreConfigured } from "./firestore";
+import { listProductsByCategory } from "./products";
+
+const RISK_RANK: Record<IngredientRisk, number> = { safe: 1, caution: 2, avoid: 3 };
+const MAX_PRODUCTS = 5;
+const MAX_SUBSTITUTES_PER_INGREDIENT = 2;
+
+type ScannedIngredient = Pick<Ingredient, "slug" | "name" | "risk" | "category">;
+
+/**
+ * Catalog ingredients in the same category as each flagged ingredient, with a lower risk.
+ * The reason names the rating change and any health flags the substitute doesn't carry.
+ */
+function findSubstitutes(
+  ingredients: ScannedIngredient[],
+  summaries: IngredientSummary[]
+): IngredientSubstitute[] {
+  const bySlug = new Map(summaries.map((summary) => [summary.slug, summary]));
+  const scanned = new Set(ingredients.map((item) => item.slug));
+  const substitutes: IngredientSubstitute[] = [];
+
+  for (const ingredient of ingredients) {
+    if (ingredient.risk === "safe") continue;
+    const record = bySlug.get(ingredient.slug);
+    const category = ingredient.category || record?.category;
+    if (!category || category === "other") continue;
+
+    const candidates = summaries
+      .filter(
+        (summary) =>
+          summary.category === category &&
+          !scanned.has(summary.slug) &&
+          RISK_RANK[summary.risk] < RISK_RANK[ingredient.risk]
+      )
+      .sort((a, b) => RISK_RANK[a.risk] - RISK_RANK[b.risk] || a.name.localeCompare(b.name))
+      .slice(0, MAX_SUBSTITUTES_PER_INGREDIENT);
+
+    for (const candidate of candidates) {
+      const dropped = (record?.healthFlags || []).filter(
+        (flag) => !candidate.healthFlags.includes(flag)
+      );
+      substitutes.push({
+        replaces: ingredient.name,
+        slug: candidate.slug,
+        name: candidate.name,
+        risk: candidate.risk,
+        reason: [
+          `Same role (${category}), rated ${candidate.risk} instead of ${ingredient.risk}`,
+          dropped.length ? `not flagged as ${dropped.join(", ")}` : ""
+        ]
+          .filter(Boolean)
+          .join("; ")
+      });
+    }
+  }
+
+  return substitutes;
+}
+
+/** Analyzed products of the same type that rate better, best first. */
+async function findProducts(input: {
+  category: string;
+  gtin?: string;
+  overallRisk: IngredientRisk;
+  score?: number;
+  ingredients: ScannedIngredient[];
+}): Promise<ProductAlternative[]> {
+  // Candidates come back best first, so one extra covers the scanned product itself; same-risk
+  // products that don't beat its score sort after every one that does.
+  const products = await listProductsByCategory(input.category, {
+    maxRisk: input.overallRisk,
+    limit: MAX_PRODUCTS + 1
+  });
+  const flagged = input.ingredients.filter((item) => item.risk !== "safe");
+
+  return products
+    .flatMap((product) =>
+      product.gtin !== input.gtin && product.lastResult
+        ? [
+            {
+              product,
+              risk: product.lastResult.overallRisk,
+              score: product.lastResult.score?.score
+            }
+          ]
+        : []
+    )
+    .filter(
+      ({ risk, score }) =>
+        RISK_RANK[risk] < RISK_RANK[input.overallRisk] ||
+        (risk === input.overallRisk &&
+          score !== undefined &&
+          input.score !== undefined &&
+          score > input.score)
+    )
+    .sort((a, b) => RISK_RANK[a.risk] - RISK_RANK[b.risk] || (b.score ?? 0) - (a.score ?? 0))
+    .slice(0, MAX_PRODUCTS)
+    .map(({ product, risk, score }) => {
+      const avoided = flagged
+        .filter((item) => !product.ingredientSlugs.includes(item.slug))
+        .map((item) => item.name);
+      const rating =
+        risk === input.overallRisk
+          ? `Same rating, higher score (${score} vs ${input.score})`
+          : `Rated ${risk} instead of ${input.overallRisk}`;
+      return {
+        gtin: product.gtin,
+        name: product.name,
+        ...(product.brand ? { brand: product.brand } : {}),
+        overallRisk: risk,
+        ...(score !== undefined ? { score } : {}),
+        reason: avoided.length ? `${rating}; no ${avoided.join(", ")}` : rating
+      };
+    });
+}
+
+/**
+ * Safer options for a scanned product: other analyzed products in its category, and
+ * lower-risk catalog ingredients that do the same job as its flagged ones. Returns empty
+ * lists when Firestore isn't configured.
+ */
+export async function findAlternatives(input: {
+  ingredients: ScannedIngredient[];
+  overallRisk: IngredientRisk;
+  score?: number;
+  category?: string;
+  gtin?: string;
+}): Promise<AlternativesResult> {
+  if (!isFirestoreConfigured()) return { products: [], ingredients: [] };
+
+  const [summaries, products] = await Promise.all([
+    getIngredientSummaries(),
+    input.category ? findProducts({ ...input, category: input.category }) : Promise.resolve([])
+  ]);
+
+  return { products, ingredients: findSubstitutes(input.ingredients, summaries) };
+}
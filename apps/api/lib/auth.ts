@@ -0,0 +1,117 @@
+import { createHash } from "node:crypto";
+
+import { NextRequest } from "next/server";
+
+import { jsonWithCors } from "./cors";
+import { getAdminAuth, getFirestore, isFirestoreConfigured } from "./firestore";
+
+export type Identity =
+  | { kind: "user"; uid: string; email?: string }
+  | { kind: "apiKey"; keyId: string; name: string }
+  | { kind: "anonymous" };
+
+type AuthMode = "required" | "optional" | "off";
+
+class AuthError extends Error {}
+
+function getAuthMode(): AuthMode {
+  const mode = String(process.env.AUTH_MODE || "optional")
+    .trim()
+    .toLowerCase();
+  return mode === "required" || mode === "off" ? mode : "optional";
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/** API_KEY_HASHES="ci:<sha256>,partner-acme:<sha256>"; raw keys never live on the server. */
+function getEnvApiKeys(): Map<string, string> {
+  const keys = new Map<string, string>();
+  for (const item of String(process.env.API_KEY_HASHES || "").split(",")) {
+    const [name, hash] = item.split(":").map((part) => part.trim());
+    if (name && hash) keys.set(hash.toLowerCase(), name);
+  }
+  return keys;
+}
+
+async function verifyApiKey(key: string): Promise<Identity> {
+  const hash = hashApiKey(key);
+  const keyId = hash.slice(0, 12);
+
+  const envName = getEnvApiKeys().get(hash);
+  if (envName) return { kind: "apiKey", keyId, name: envName };
+
+  if (isFirestoreConfigured()) {
+    const snapshot = await getFirestore().collection("apiKeys").doc(hash).get();
+    const data = snapshot.data();
+    if (snapshot.exists && !data?.disabled) {
+      return { kind: "apiKey", keyId, name: String(data?.name || keyId) };
+    }
+  }
+
+  throw new AuthError("Invalid API key.");
+}
+
+async function verifyIdToken(token: string): Promise<Identity> {
+  if (!isFirestoreConfigured()) {
+    throw new AuthError("Firebase Auth is not configured on this server.");
+  }
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(token);
+    return { kind: "user", uid: decoded.uid, ...(decoded.email ? { email: decoded.email } : {}) };
+  } catch {
+    throw new AuthError("Invalid or expired ID token.");
+  }
+}
+
+export async function resolveIdentity(request: NextRequest): Promise<Identity> {
+  const apiKey = request.headers.get("x-api-key")?.trim();
+  if (apiKey) return verifyApiKey(apiKey);
+
+  const authorization = request.headers.get("authorization")?.trim() || "";
+  const bearer = authorization.match(/^Bearer\s+(.+)$/i);
+  if (bearer) return verifyIdToken(bearer[1].trim());
+
+  return { kind: "anonymous" };
+}
+
+/**
+ * Wraps a route handler with Firebase ID token / API key checks and passes the caller's
+ * identity through. AUTH_MODE=required rejects anonymous callers; credentials that are
+ * sent but invalid are rejected in every mode except "off".
+ */
+export function withAuth(
+  handler: (request: NextRequest, identity: Identity) => Promise<Response>
+): (request: NextRequest) => Promise<Response> {
+  return async (request) => {
+    const mode = getAuthMode();
+    if (mode === "off") return handler(request, { kind: "anonymous" });
+
+    let identity: Identity;
+    try {
+      identity = await resolveIdentity(request);
+    } catch (error) {
+      return jsonWithCors(
+        {
+          error: error instanceof AuthError ? error.message : "Failed to verify credentials."
+        },
+        {
+          status: error instanceof AuthError ? 401 : 500,
+          headers: { "WWW-Authenticate": "Bearer" }
+        }
+      );
+    }
+
+    if (mode === "required" && identity.kind === "anonymous") {
+      return jsonWithCors(
+        {
+          error: "Authentication required. Send a Firebase ID token or an X-Api-Key header."
+        },
+        { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+      );
+    }
+
+    return handler(request, identity);
+  };
+}
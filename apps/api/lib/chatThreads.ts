@@ -0,0 +1,165 @@
+import { randomUUID } from "node:crypto";
+
+import { ChatMessage, SourceRef } from "@what-we-use/shared";
+
+import { getFirestore, isFirestoreConfigured } from "./firestore";
+
+export interface ChatThread {
+  id: string;
+  /** Identity subject that created the thread; other callers can't read or extend it. */
+  owner: string;
+  messages: ChatMessage[];
+  updatedAt: string;
+  expiresAt: number;
+}
+
+export interface ChatThreadStore {
+  get(id: string): Promise<ChatThread | null>;
+  set(thread: ChatThread): Promise<void>;
+}
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+// Stored threads keep more than the prompt needs so trimming limits can be raised later.
+const MAX_STORED_MESSAGES = 50;
+const MAX_MESSAGE_CHARS = 2000;
+// A full thread is up to 50 messages of 2,000 characters; without a cap every conversation
+// would stay in memory for the life of the process.
+const MEMORY_MAX_THREADS = 200;
+
+const THREAD_TTL_MS =
+  (Number(process.env.CHAT_THREAD_TTL_SECONDS) > 0
+    ? Number(process.env.CHAT_THREAD_TTL_SECONDS)
+    : DEFAULT_TTL_SECONDS) * 1000;
+
+function createMemoryStore(): ChatThreadStore {
+  const threads = new Map<string, ChatThread>();
+  return {
+    async get(id) {
+      const thread = threads.get(id);
+      if (!thread) return null;
+      threads.delete(id);
+      if (thread.expiresAt <= Date.now()) return null;
+      // Re-inserting keeps the Map in least-recently-used order.
+      threads.set(id, thread);
+      return thread;
+    },
+    async set(thread) {
+      threads.delete(thread.id);
+      threads.set(thread.id, thread);
+      for (const oldest of threads.keys()) {
+        if (threads.size <= MEMORY_MAX_THREADS) break;
+        threads.delete(oldest);
+      }
+    }
+  };
+}
+
+function createFirestoreStore(): ChatThreadStore {
+  const collection = () => getFirestore().collection("chatThreads");
+  return {
+    async get(id) {
+      const snapshot = await collection().doc(id).get();
+      if (!snapshot.exists) return null;
+      const thread = snapshot.data() as ChatThread;
+      if (!Array.isArray(thread?.messages) || thread.expiresAt <= Date.now()) return null;
+      return thread;
+    },
+    async set(thread) {
+      // Firestore rejects undefined values anywhere in the document.
+      await collection()
+        .doc(thread.id)
+        .set(JSON.parse(JSON.stringify(thread)));
+    }
+  };
+}
+
+let cachedStore: ChatThreadStore | null | undefined;
+
+/** Picks the store from CHAT_THREADS ("firestore", "memory" or "off"). */
+export function getChatThreadStore(): ChatThreadStore | null {
+  if (cachedStore !== undefined) return cachedStore;
+
+  const configured = String(process.env.CHAT_THREADS || "")
+    .trim()
+    .toLowerCase();
+  const kind = configured || (isFirestoreConfigured() ? "firestore" : "memory");
+
+  if (kind === "off") {
+    cachedStore = null;
+  } else if (kind === "firestore") {
+    cachedStore = createFirestoreStore();
+  } else {
+    cachedStore = createMemoryStore();
+  }
+
+  return cachedStore;
+}
+
+export function createThread(owner: string): ChatThread {
+  return {
+    id: randomUUID(),
+    owner,
+    messages: [],
+    updatedAt: new Date().toISOString(),
+    expiresAt: Date.now() + THREAD_TTL_MS
+  };
+}
+
+export function appendToThread(thread: ChatThread, messages: ChatMessage[]): ChatThread {
+  return {
+    ...thread,
+    messages: [...thread.messages, ...messages].slice(-MAX_STORED_MESSAGES),
+    updatedAt: new Date().toISOString(),
+    expiresAt: Date.now() + THREAD_TTL_MS
+  };
+}
+
+/** Parses client-supplied history, dropping anything that isn't a user or assistant turn. */
+export function readMessages(value: unknown): ChatMessage[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .map((item): ChatMessage | null => {
+      const role = item?.role === "user" || item?.role === "assistant" ? item.role : null;
+      const content = typeof item?.content === "string" ? item.content.trim() : "";
+      if (!role || !content) return null;
+      const sources = Array.isArray(item?.sources) ? (item.sources as SourceRef[]) : [];
+      return {
+        role,
+        content: content.slice(0, MAX_MESSAGE_CHARS),
+        ...(sources.length ? { sources } : {})
+      };
+    })
+    .filter((item): item is ChatMessage => item !== null)
+    .slice(-MAX_STORED_MESSAGES);
+}
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+}
+
+/**
+ * Keeps the most recent turns that fit the prompt budget. Characters stand in for tokens
+ * (roughly four per token); the newest message is kept even when it alone is over budget,
+ * cut to the limit.
+ */
+export function trimHistory(messages: ChatMessage[]): ChatMessage[] {
+  const maxMessages = readLimit(process.env.CHAT_HISTORY_MAX_MESSAGES, 12);
+  const maxChars = readLimit(process.env.CHAT_HISTORY_MAX_CHARS, 6000);
+
+  const kept: ChatMessage[] = [];
+  let total = 0;
+  for (const message of [...messages].reverse()) {
+    if (kept.length >= maxMessages) break;
+    if (total + message.content.length > maxChars) {
+      if (!kept.length) kept.push({ ...message, content: message.content.slice(-maxChars) });
+      break;
+    }
+    kept.push(message);
+    total += message.content.length;
+  }
+
+  // Sources are for display; the model only needs what was said.
+  return kept.reverse().map(({ role, content }) => ({ role, content }));
+}
@@ -1,18 +1,167 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 
-const CORS_HEADERS = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization"
+export type CorsRoute =
+  | "health"
+  | "ingredients"
+  | "products"
+  | "alternatives"
+  | "compare"
+  | "scan"
+  | "scan-image"
+  | "analyze"
+  | "chat";
+
+interface CorsPolicy {
+  origins: string[];
+  methods: string;
+  headers: string;
+  credentials: boolean;
+}
+
+const ROUTE_METHODS: Record<CorsRoute, string> = {
+  health: "GET,OPTIONS",
+  ingredients: "GET,OPTIONS",
+  products: "GET,POST,OPTIONS",
+  alternatives: "POST,OPTIONS",
+  compare: "POST,OPTIONS",
+  scan: "POST,OPTIONS",
+  "scan-image": "POST,OPTIONS",
+  analyze: "POST,OPTIONS",
+  chat: "POST,OPTIONS"
 };
 
-export function corsPreflightResponse(): NextResponse {
+const DEFAULT_ALLOWED_HEADERS = "Content-Type, Authorization, X-Api-Key";
+const EXPOSED_HEADERS = "Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining";
+
+function readList(value: string | undefined): string[] | null {
+  if (value === undefined) return null;
+  return value
+    .split(",")
+    .map((item) => item.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+}
+
+function envSuffix(route: CorsRoute): string {
+  return route.replace(/-/g, "_").toUpperCase();
+}
+
+/**
+ * Each deploy environment sets its own CORS_* variables; CORS_ORIGINS_<ROUTE> narrows a
+ * single route. Without configuration every origin is allowed, which native clients
+ * (no Origin header) and local development rely on.
+ */
+function getCorsPolicy(route: CorsRoute): CorsPolicy {
+  const suffix = envSuffix(route);
+  return {
+    origins: readList(process.env[`CORS_ORIGINS_${suffix}`]) ||
+      readList(process.env.CORS_ORIGINS) || ["*"],
+    methods: process.env[`CORS_METHODS_${suffix}`] || ROUTE_METHODS[route],
+    headers: process.env.CORS_HEADERS || DEFAULT_ALLOWED_HEADERS,
+    credentials: String(process.env.CORS_CREDENTIALS || "").toLowerCase() === "true"
+  };
+}
+
+/**
+ * Credentials with a "*" origin are a configuration error: browsers would refuse every
+ * response, and echoing any origin instead would let every site make credentialed calls.
+ * Checked once when the module loads and logged, so a bad deploy shows up in the logs.
+ */
+const CONFIG_ERRORS = new Map<CorsRoute, string>();
+for (const route of Object.keys(ROUTE_METHODS) as CorsRoute[]) {
+  const policy = getCorsPolicy(route);
+  if (policy.credentials && policy.origins.includes("*")) {
+    CONFIG_ERRORS.set(
+      route,
+      `CORS_CREDENTIALS=true needs an explicit origin list; set CORS_ORIGINS (or CORS_ORIGINS_${envSuffix(route)}) without "*".`
+    );
+  }
+}
+for (const [route, message] of CONFIG_ERRORS) {
+  console.error(`CORS policy for ${route}: ${message}`);
+}
+
+/**
+ * What a misconfigured route answers instead of running its handler. The requesting origin
+ * is echoed, without credentials, so a browser client can still read the message.
+ */
+function configErrorResponse(request: Request, message: string): NextResponse {
+  const origin = request.headers.get("origin");
+  return NextResponse.json(
+    { error: "CORS is misconfigured on this server.", details: message },
+    {
+      status: 500,
+      headers: { Vary: "Origin", ...(origin ? { "Access-Control-Allow-Origin": origin } : {}) }
+    }
+  );
+}
+
+function isOriginAllowed(origin: string, allowed: string[]): boolean {
+  return allowed.some((pattern) => {
+    if (pattern === "*" || pattern === origin) return true;
+    // "https://*.whatweuse.app" matches any subdomain, but not the bare domain.
+    if (!pattern.includes("*")) return false;
+    const [prefix, suffix] = pattern.split("*", 2);
+    return (
+      origin.startsWith(prefix) &&
+      origin.endsWith(suffix) &&
+      origin.length > prefix.length + suffix.length
+    );
+  });
+}
+
+function corsHeaders(request: Request, route: CorsRoute): Record<string, string> {
+  const policy = getCorsPolicy(route);
+  const origin = request.headers.get("origin")?.replace(/\/+$/, "") || "";
+  const headers: Record<string, string> = {
+    Vary: "Origin",
+    "Access-Control-Allow-Methods": policy.methods,
+    "Access-Control-Allow-Headers": policy.headers,
+    "Access-Control-Expose-Headers": EXPOSED_HEADERS
+  };
+
+  if (policy.origins.includes("*")) {
+    headers["Access-Control-Allow-Origin"] = "*";
+  } else if (origin && isOriginAllowed(origin, policy.origins)) {
+    headers["Access-Control-Allow-Origin"] = origin;
+    if (policy.credentials) {
+      headers["Access-Control-Allow-Credentials"] = "true";
+    }
+  }
+
+  return headers;
+}
+
+export function corsPreflightResponse(request: NextRequest, route: CorsRoute): NextResponse {
+  const configError = CONFIG_ERRORS.get(route);
+  if (configError) return configErrorResponse(request, configError);
+
   return new NextResponse(null, {
     status: 204,
-    headers: CORS_HEADERS
+    headers: {
+      ...corsHeaders(request, route),
+      "Access-Control-Max-Age": "600"
+    }
   });
 }
 
+/** Applies the route's CORS policy to whatever response the handler returns. */
+export function withCors(
+  route: CorsRoute,
+  handler: (request: NextRequest) => Promise<Response>
+): (request: NextRequest) => Promise<Response> {
+  return async (request) => {
+    const configError = CONFIG_ERRORS.get(route);
+    if (configError) return configErrorResponse(request, configError);
+
+    const response = await handler(request);
+    for (const [name, value] of Object.entries(corsHeaders(request, route))) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+}
+
+/** JSON response for route handlers; CORS headers are added by `withCors`. */
 export function jsonWithCors<T>(
   body: T,
   init?: {
@@ -22,9 +171,6 @@ export function jsonWithCors<T>(
 ): NextResponse {
   return NextResponse.json(body, {
     status: init?.status,
-    headers: {
-      ...CORS_HEADERS,
-      ...(init?.headers || {})
-    }
+    headers: init?.headers
   });
 }
@@ -5,6 +5,8 @@ import admin from "firebase-admin";
 
 import { Ingredient, SourceRef, normalizeRisk, slugify } from "@what-we-use/shared";
 
+import { findClosest } from "./fuzzy";
+
 type ServiceAccount = admin.ServiceAccount;
 
 export function isFirestoreConfigured(): boolean {
@@ -41,21 +43,29 @@ function loadServiceAccount(): ServiceAccount {
 
 let cachedDb: admin.firestore.Firestore | null = null;
 
-export function getFirestore(): admin.firestore.Firestore {
-  if (cachedDb) return cachedDb;
+function ensureAdminApp(): void {
+  if (admin.apps.length) return;
 
   const credentials = loadServiceAccount();
+  admin.initializeApp({
+    credential: admin.credential.cert(credentials)
+  });
+}
 
-  if (!admin.apps.length) {
-    admin.initializeApp({
-      credential: admin.credential.cert(credentials)
-    });
-  }
+export function getFirestore(): admin.firestore.Firestore {
+  if (cachedDb) return cachedDb;
+
+  ensureAdminApp();
 
   cachedDb = admin.firestore();
   return cachedDb;
 }
 
+export function getAdminAuth(): admin.auth.Auth {
+  ensureAdminApp();
+  return admin.auth();
+}
+
 function toStringArray(value: unknown): string[] {
   if (!Array.isArray(value)) return [];
   return value.map((item) => String(item || "").trim()).filter(Boolean);
@@ -100,12 +110,223 @@ export function mapIngredientRecord(slug: string, data: Record<string, unknown>)
   };
 }
 
+const RECORD_CACHE_TTL_MS = 60 * 1000;
+const GET_ALL_CHUNK_SIZE = 100;
+
+// Not-found lookups are cached as null so repeated misses skip Firestore too.
+const recordCache = new Map<string, { record: IngredientRecord | null; expiresAt: number }>();
+
+function readCachedRecord(slug: string): { record: IngredientRecord | null } | null {
+  const cached = recordCache.get(slug);
+  if (!cached) return null;
+  if (cached.expiresAt <= Date.now()) {
+    recordCache.delete(slug);
+    return null;
+  }
+  return { record: cached.record };
+}
+
+function cacheRecord(slug: string, record: IngredientRecord | null): void {
+  recordCache.set(slug, { record, expiresAt: Date.now() + RECORD_CACHE_TTL_MS });
+}
+
 export async function getIngredientBySlug(slug: string): Promise<IngredientRecord | null> {
   const normalizedSlug = slugify(slug);
   if (!normalizedSlug) return null;
 
+  const cached = readCachedRecord(normalizedSlug);
+  if (cached) return cached.record;
+
   const snapshot = await getFirestore().collection("ingredients").doc(normalizedSlug).get();
-  if (!snapshot.exists) return null;
+  const record = snapshot.exists
+    ? mapIngredientRecord(normalizedSlug, (snapshot.data() || {}) as Record<string, unknown>)
+    : null;
+
+  cacheRecord(normalizedSlug, record);
+  return record;
+}
+
+export interface IngredientBatchResult {
+  records: Map<string, IngredientRecord>;
+  failedSlugs: string[];
+}
+
+export async function getIngredientsBySlugs(slugs: string[]): Promise<IngredientBatchResult> {
+  const records = new Map<string, IngredientRecord>();
+  const failedSlugs: string[] = [];
+  const pending: string[] = [];
+
+  for (const slug of new Set(slugs.map((item) => slugify(item)).filter(Boolean))) {
+    const cached = readCachedRecord(slug);
+    if (!cached) {
+      pending.push(slug);
+    } else if (cached.record) {
+      records.set(slug, cached.record);
+    }
+  }
+
+  if (!pending.length) return { records, failedSlugs };
+
+  const db = getFirestore();
+  const collection = db.collection("ingredients");
+  const chunks: string[][] = [];
+  for (let i = 0; i < pending.length; i += GET_ALL_CHUNK_SIZE) {
+    chunks.push(pending.slice(i, i + GET_ALL_CHUNK_SIZE));
+  }
+
+  await Promise.all(
+    chunks.map(async (chunk) => {
+      try {
+        const snapshots = await db.getAll(...chunk.map((slug) => collection.doc(slug)));
+        for (const snapshot of snapshots) {
+          const record = snapshot.exists
+            ? mapIngredientRecord(snapshot.id, (snapshot.data() || {}) as Record<string, unknown>)
+            : null;
+          cacheRecord(snapshot.id, record);
+          if (record) records.set(snapshot.id, record);
+        }
+      } catch {
+        failedSlugs.push(...chunk);
+      }
+    })
+  );
+
+  return { records, failedSlugs };
+}
+
+export interface IngredientAliasEntry {
+  slug: string;
+  name: string;
+  alias?: string;
+}
+
+/** The fields every record carries that lookups and search need, without notes or sources. */
+export type IngredientSummary = Pick<
+  IngredientRecord,
+  "slug" | "name" | "aliases" | "category" | "healthFlags" | "risk"
+>;
+
+const CATALOG_INDEX_TTL_MS = 5 * 60 * 1000;
+
+let cachedCatalog: {
+  summaries: IngredientSummary[];
+  aliasIndex: Map<string, IngredientAliasEntry>;
+  expiresAt: number;
+} | null = null;
+
+function nameVariants(name: string): string[] {
+  const variants: string[] = [];
+  const match = name.match(/^(.*?)\s*\(([^)]*)\)\s*$/);
+  if (match) {
+    const outer = match[1].trim();
+    const inner = match[2].trim();
+    if (outer) variants.push(outer);
+    // "Parabens (Methyl-, Ethyl-, ...)" lists members, not a synonym.
+    if (inner && !inner.includes(",")) variants.push(inner);
+  }
+  return variants;
+}
+
+export function buildAliasIndex(
+  records: Array<Pick<IngredientRecord, "slug" | "name" | "aliases">>
+): Map<string, IngredientAliasEntry> {
+  const index = new Map<string, IngredientAliasEntry>();
+
+  for (const record of records) {
+    index.set(record.slug, { slug: record.slug, name: record.name });
+  }
+
+  for (const record of records) {
+    const nameKey = slugify(record.name);
+    if (nameKey && !index.has(nameKey)) {
+      index.set(nameKey, { slug: record.slug, name: record.name });
+    }
+
+    for (const alias of [...record.aliases, ...nameVariants(record.name)]) {
+      const key = slugify(alias);
+      if (!key || index.has(key)) continue;
+      index.set(key, { slug: record.slug, name: record.name, alias });
+    }
+  }
+
+  return index;
+}
+
+async function loadCatalogIndex(): Promise<NonNullable<typeof cachedCatalog>> {
+  if (cachedCatalog && cachedCatalog.expiresAt > Date.now()) {
+    return cachedCatalog;
+  }
+
+  const snapshot = await getFirestore()
+    .collection("ingredients")
+    .select("name", "aliases", "category", "health_flags", "risk_level", "risk")
+    .get();
+  const summaries = snapshot.docs.map((doc): IngredientSummary => {
+    const data = doc.data() as Record<string, unknown>;
+    return {
+      slug: doc.id,
+      name: String(data.name || doc.id),
+      aliases: toStringArray(data.aliases),
+      category: String(data.category || "other"),
+      healthFlags: toStringArray(data.health_flags),
+      risk: normalizeRisk(String(data.risk_level || data.risk || ""))
+    };
+  });
+
+  cachedCatalog = {
+    summaries,
+    aliasIndex: buildAliasIndex(summaries),
+    expiresAt: Date.now() + CATALOG_INDEX_TTL_MS
+  };
+  return cachedCatalog;
+}
+
+export async function getIngredientAliasIndex(): Promise<Map<string, IngredientAliasEntry>> {
+  return (await loadCatalogIndex()).aliasIndex;
+}
+
+export async function getIngredientSummaries(): Promise<IngredientSummary[]> {
+  return (await loadCatalogIndex()).summaries;
+}
+
+export async function findIngredientByName(name: string): Promise<IngredientRecord | null> {
+  const key = slugify(name);
+  if (!key) return null;
+
+  const direct = await getIngredientBySlug(key);
+  if (direct) return direct;
+
+  const entry = (await getIngredientAliasIndex()).get(key);
+  if (!entry || entry.slug === key) return null;
+
+  const record = await getIngredientBySlug(entry.slug);
+  if (!record) return null;
+
+  return {
+    ...record,
+    ...(entry.alias ? { matchedAlias: entry.alias } : {})
+  };
+}
+
+export interface FuzzyIngredientMatch {
+  entry: IngredientAliasEntry;
+  score: number;
+}
+
+export function findClosestIngredient(
+  name: string,
+  index: Map<string, IngredientAliasEntry>,
+  minScore: number
+): FuzzyIngredientMatch | null {
+  const key = slugify(name);
+  if (!key) return null;
+
+  const exact = index.get(key);
+  if (exact) return { entry: exact, score: 1 };
+
+  const closest = findClosest(key, index.keys(), minScore);
+  if (!closest) return null;
 
-  return mapIngredientRecord(normalizedSlug, (snapshot.data() || {}) as Record<string, unknown>);
+  const entry = index.get(closest.key);
+  return entry ? { entry, score: closest.score } : null;
 }
@@ -0,0 +1,81 @@
+function readThreshold(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0 || parsed > 1) return fallback;
+  return parsed;
+}
+
+// Scores at or above this substitute the catalog entry for the scanned name.
+export const FUZZY_MATCH_THRESHOLD = readThreshold(process.env.FUZZY_MATCH_THRESHOLD, 0.9);
+// Scores between this and FUZZY_MATCH_THRESHOLD are only suggested back to the user.
+export const FUZZY_SUGGEST_THRESHOLD = readThreshold(process.env.FUZZY_SUGGEST_THRESHOLD, 0.7);
+
+// Characters ML Kit commonly confuses on small label print.
+const OCR_CONFUSIONS: Array<[string, string]> = [
+  ["1", "l"],
+  ["1", "i"],
+  ["l", "i"],
+  ["0", "o"],
+  ["5", "s"],
+  ["8", "b"],
+  ["2", "z"],
+  ["c", "e"],
+  ["n", "h"]
+];
+
+const CONFUSION_COST = 0.25;
+
+const confusablePairs = new Set(
+  OCR_CONFUSIONS.flatMap(([a, b]) => [`${a}${b}`, `${b}${a}`])
+);
+
+function substitutionCost(a: string, b: string): number {
+  if (a === b) return 0;
+  return confusablePairs.has(`${a}${b}`) ? CONFUSION_COST : 1;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + substitutionCost(a[i - 1], b[j - 1])
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/** Similarity in [0, 1] between two slugified names, tolerant of OCR character swaps. */
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (!longest) return 0;
+  return Math.max(0, 1 - editDistance(a, b) / longest);
+}
+
+export function findClosest(
+  query: string,
+  candidates: Iterable<string>,
+  minScore: number
+): { key: string; score: number } | null {
+  let best: { key: string; score: number } | null = null;
+
+  for (const candidate of candidates) {
+    const longest = Math.max(query.length, candidate.length);
+    // Length alone already rules out a score above minScore.
+    if (Math.abs(query.length - candidate.length) > (1 - minScore) * longest) continue;
+
+    const score = similarity(query, candidate);
+    if (score >= minScore && (!best || score > best.score)) {
+      best = { key: candidate, score };
+    }
+  }
+
+  return best;
+}
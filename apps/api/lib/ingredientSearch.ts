@@ -0,0 +1,97 @@
+import { IngredientRisk, slugify } from "@what-we-use/shared";
+
+import { IngredientSummary, getIngredientSummaries } from "./firestore";
+
+export type IngredientSearchHit = IngredientSummary & { matchedAlias?: string };
+
+export interface IngredientSearchResult {
+  items: IngredientSearchHit[];
+  total: number;
+  /** Offset of the next page, or null on the last one. */
+  nextOffset: number | null;
+}
+
+export interface IngredientSearchOptions {
+  query?: string;
+  category?: string;
+  risk?: IngredientRisk;
+  offset: number;
+  limit: number;
+}
+
+// Lower ranks sort first: exact matches, then prefixes, then substrings; names before aliases.
+const RANK_EXACT = 0;
+const RANK_NAME_PREFIX = 1;
+const RANK_NAME_WORD = 2;
+const RANK_ALIAS_PREFIX = 3;
+const RANK_NAME_SUBSTRING = 4;
+const RANK_ALIAS_SUBSTRING = 5;
+
+/** Compares slugs, so "Laureth" finds "sodium-laureth-sulfate" as a word prefix. */
+function rankKey(key: string, query: string, prefixRank: number, wordRank: number): number | null {
+  if (key === query) return RANK_EXACT;
+  if (key.startsWith(query)) return prefixRank;
+  if (key.includes(`-${query}`)) return wordRank;
+  return null;
+}
+
+/** The best-ranked way `query` matches the summary's slug, name or aliases. */
+function matchSummary(
+  summary: IngredientSummary,
+  query: string
+): { rank: number; alias?: string } | null {
+  const matches: Array<{ rank: number; alias?: string }> = [];
+
+  for (const key of new Set([summary.slug, slugify(summary.name)])) {
+    const rank = rankKey(key, query, RANK_NAME_PREFIX, RANK_NAME_WORD);
+    if (rank !== null) matches.push({ rank });
+    else if (key.includes(query)) matches.push({ rank: RANK_NAME_SUBSTRING });
+  }
+  for (const alias of summary.aliases) {
+    const key = slugify(alias);
+    const rank = rankKey(key, query, RANK_ALIAS_PREFIX, RANK_ALIAS_PREFIX);
+    if (rank !== null) matches.push({ rank, alias });
+    else if (key.includes(query)) matches.push({ rank: RANK_ALIAS_SUBSTRING, alias });
+  }
+
+  return matches.sort((a, b) => a.rank - b.rank)[0] || null;
+}
+
+/**
+ * Filters and ranks catalog summaries in memory. Without a query every summary matching the
+ * filters is listed by name, which is how the catalog is browsed.
+ */
+export function searchIngredientSummaries(
+  summaries: IngredientSummary[],
+  options: IngredientSearchOptions
+): IngredientSearchResult {
+  const query = slugify(options.query || "");
+  const filtered = summaries.filter(
+    (summary) =>
+      (!options.category || summary.category === options.category) &&
+      (!options.risk || summary.risk === options.risk)
+  );
+
+  const hits = filtered
+    .flatMap((summary): Array<{ summary: IngredientSummary; rank: number; alias?: string }> => {
+      if (!query) return [{ summary, rank: RANK_EXACT }];
+      const match = matchSummary(summary, query);
+      return match ? [{ summary, rank: match.rank, alias: match.alias }] : [];
+    })
+    .sort((a, b) => a.rank - b.rank || a.summary.name.localeCompare(b.summary.name));
+
+  const end = options.offset + options.limit;
+  return {
+    items: hits
+      .slice(options.offset, end)
+      .map(({ summary, alias }) => (alias ? { ...summary, matchedAlias: alias } : summary)),
+    total: hits.length,
+    nextOffset: end < hits.length ? end : null
+  };
+}
+
+export async function searchIngredients(
+  options: IngredientSearchOptions
+): Promise<IngredientSearchResult> {
+  return searchIngredientSummaries(await getIngredientSummaries(), options);
+}
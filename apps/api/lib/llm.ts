@@ -0,0 +1,492 @@
+import {
+  ChatMessage,
+  ConcentrationBand,
+  normalizeRisk,
+  parseConcentration,
+  slugify
+} from "@what-we-use/shared";
+
+import { CHAT_OUTPUT_SCHEMA, JsonSchema, SCAN_OUTPUT_SCHEMA, SchemaIssue, validateSchema } from "./schemas";
+
+// Bump whenever a prompt or schema changes so cached scans from the old prompt are retired.
+export const PROMPT_VERSION = "2";
+
+export interface LlmIngredient {
+  name: string;
+  slug: string;
+  risk: "safe" | "caution" | "avoid";
+  notes?: string;
+  concentration?: ConcentrationBand;
+}
+
+export interface LlmScanOutput {
+  ingredients: LlmIngredient[];
+  summary: string;
+}
+
+export interface LlmChatOutput {
+  answer: string;
+  sourceTitles?: string[];
+}
+
+export interface LlmChatInput {
+  question: string;
+  context: string;
+  sourceTitles: string[];
+  /** Earlier turns of the thread, oldest first, already trimmed to fit the prompt. */
+  history?: ChatMessage[];
+}
+
+export interface LlmImage {
+  data: string;
+  mimeType: string;
+  label?: string;
+}
+
+export interface LlmProvider {
+  name: string;
+  isConfigured(): boolean;
+  analyzeText(input: { text?: string; ingredients?: string[] }): Promise<LlmScanOutput>;
+  extractFromImages(images: LlmImage[]): Promise<LlmScanOutput>;
+  answerQuestion(input: LlmChatInput): Promise<LlmChatOutput>;
+  /**
+   * Same as `answerQuestion`, reporting answer text to `onAnswerText` as it is generated.
+   * `signal` aborts the model call, e.g. when the client disconnects.
+   */
+  streamAnswer?(
+    input: LlmChatInput,
+    onAnswerText: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<LlmChatOutput>;
+}
+
+export interface TransportResponse {
+  text: string;
+  truncated: boolean;
+}
+
+/** Raw prompt-in, JSON-out calls that an HTTP model backend has to implement. */
+export interface JsonTransport {
+  generateJson(input: {
+    prompt: string;
+    schema: JsonSchema;
+    temperature?: number;
+    maxOutputTokens?: number;
+    signal?: AbortSignal;
+  }): Promise<TransportResponse>;
+  generateJsonWithImages(input: {
+    prompt: string;
+    images: Array<{ data: string; mimeType: string }>;
+    schema: JsonSchema;
+    maxOutputTokens?: number;
+  }): Promise<TransportResponse>;
+  /** Optional streaming variant of `generateJson`; raw text chunks go to `onText`. */
+  streamJson?(
+    input: {
+      prompt: string;
+      schema: JsonSchema;
+      temperature?: number;
+      maxOutputTokens?: number;
+      signal?: AbortSignal;
+    },
+    onText: (chunk: string) => void
+  ): Promise<TransportResponse>;
+}
+
+export type ModelOutputErrorCode = "invalid_json" | "schema_mismatch" | "truncated";
+
+export class ModelOutputError extends Error {
+  readonly provider: string;
+  readonly code: ModelOutputErrorCode;
+  readonly issues: SchemaIssue[];
+
+  constructor(provider: string, code: ModelOutputErrorCode, message: string, issues: SchemaIssue[] = []) {
+    super(message);
+    this.name = "ModelOutputError";
+    this.provider = provider;
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+export interface ModelErrorDetails {
+  code: ModelOutputErrorCode | "unavailable";
+  message: string;
+  issues?: SchemaIssue[];
+}
+
+export function describeModelError(error: unknown): ModelErrorDetails {
+  if (error instanceof ModelOutputError) {
+    return {
+      code: error.code,
+      message: error.message,
+      ...(error.issues.length ? { issues: error.issues.slice(0, 10) } : {})
+    };
+  }
+  return {
+    code: "unavailable",
+    message: error instanceof Error ? error.message : String(error)
+  };
+}
+
+function stripCodeFence(text: string): string {
+  return String(text || "")
+    .replace(/^```json\s*/i, "")
+    .replace(/^```\s*/i, "")
+    .replace(/```$/i, "")
+    .trim();
+}
+
+function checkModelResponse(
+  provider: string,
+  response: TransportResponse,
+  schema: JsonSchema
+): { value: unknown } | { error: ModelOutputError } {
+  if (response.truncated) {
+    return {
+      error: new ModelOutputError(
+        provider,
+        "truncated",
+        "The model response was cut off before it finished."
+      )
+    };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFence(response.text));
+  } catch {
+    return { error: new ModelOutputError(provider, "invalid_json", "The model returned invalid JSON.") };
+  }
+
+  const issues = validateSchema(value, schema);
+  if (issues.length) {
+    return {
+      error: new ModelOutputError(
+        provider,
+        "schema_mismatch",
+        "The model response did not match the expected schema.",
+        issues
+      )
+    };
+  }
+
+  return { value };
+}
+
+function buildRepairPrompt(prompt: string, response: TransportResponse, error: ModelOutputError): string {
+  const problems = error.issues.length
+    ? error.issues
+        .slice(0, 10)
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join("; ")
+    : error.message;
+
+  return (
+    `${prompt}\n\n` +
+    `Your previous response could not be used: ${problems}. ` +
+    (error.code === "truncated" ? "Keep notes shorter so the full response fits. " : "") +
+    `Previous response:\n${response.text.slice(0, 2000)}\n\n` +
+    "Return the complete corrected JSON only, matching the schema exactly."
+  );
+}
+
+/** Calls the model, validates against the schema, and retries once with a repair prompt. */
+async function requestValidated(
+  provider: string,
+  prompt: string,
+  schema: JsonSchema,
+  call: (prompt: string) => Promise<TransportResponse>
+): Promise<unknown> {
+  const first = await call(prompt);
+  const checked = checkModelResponse(provider, first, schema);
+  if ("value" in checked) return checked.value;
+
+  const repaired = checkModelResponse(
+    provider,
+    await call(buildRepairPrompt(prompt, first, checked.error)),
+    schema
+  );
+  if ("value" in repaired) return repaired.value;
+  throw repaired.error;
+}
+
+const RETRYABLE_STATUS = new Set([429]);
+const MAX_RETRIES = 2;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getRetryDelayMs(attempt: number, retryAfter: string | null): number {
+  const parsed = retryAfter ? Number(retryAfter) : Number.NaN;
+  if (!Number.isNaN(parsed) && parsed > 0) {
+    return parsed * 1000;
+  }
+  const base = 600;
+  const jitter = Math.floor(Math.random() * 250);
+  return base * 2 ** attempt + jitter;
+}
+
+export async function fetchWithRetry(url: string, options: RequestInit): Promise<Response> {
+  let attempt = 0;
+  while (true) {
+    const response = await fetch(url, options);
+    if (!RETRYABLE_STATUS.has(response.status) || attempt >= MAX_RETRIES) {
+      return response;
+    }
+    const delayMs = getRetryDelayMs(attempt, response.headers.get("retry-after"));
+    await sleep(delayMs);
+    attempt += 1;
+  }
+}
+
+/** Reads a `text/event-stream` body, passing each `data:` payload to `onData`. */
+export async function readServerSentEvents(
+  response: Response,
+  onData: (data: string) => void
+): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (block: string) => {
+    const data = block
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+    if (data) onData(data);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() || "";
+    blocks.forEach(flush);
+  }
+  flush(buffer + decoder.decode());
+}
+
+export function toFriendlyProviderError(provider: string, status: number, details: string): string {
+  const upper = details.toUpperCase();
+  if (status === 429 || upper.includes("RESOURCE_EXHAUSTED")) {
+    return "The analysis service is busy right now. Please try again in a moment.";
+  }
+  if (status >= 500) {
+    return "The analysis service is temporarily unavailable. Please try again in a moment.";
+  }
+  return `${provider} API error ${status}: ${details}`;
+}
+
+function normalizeScanOutput(value: unknown): LlmScanOutput {
+  const record = (value || {}) as {
+    ingredients?: Array<{ name?: string; risk?: string; notes?: string; concentration?: string }>;
+    summary?: string;
+  };
+
+  const ingredients = Array.isArray(record.ingredients)
+    ? record.ingredients
+        .map((item): LlmIngredient | null => {
+          const name = String(item?.name || "").trim();
+          if (!name) return null;
+          const notes = String(item?.notes || "").trim();
+          const concentration = parseConcentration(String(item?.concentration || ""));
+          return {
+            name,
+            slug: slugify(name),
+            risk: normalizeRisk(item?.risk),
+            ...(notes ? { notes } : {}),
+            ...(concentration ? { concentration } : {})
+          };
+        })
+        .filter((item): item is LlmIngredient => item !== null)
+    : [];
+
+  return {
+    ingredients,
+    summary: String(record.summary || "").trim()
+  };
+}
+
+const CHAT_OPTIONS = { schema: CHAT_OUTPUT_SCHEMA, temperature: 0.2, maxOutputTokens: 600 };
+
+function buildChatPrompt(input: LlmChatInput): string {
+  const history = (input.history || [])
+    .map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`)
+    .join("\n");
+
+  return (
+    "You answer questions about household cleaner ingredients. " +
+    "Use only the provided context: the scanned product and any matching catalog records. " +
+    "If the answer is not supported by the context, say you don't have proof and suggest checking sources. " +
+    "Return only valid JSON with this schema: " +
+    '{"answer":"string","sourceTitles":["string"]}. ' +
+    "Only include sourceTitles from the provided Sources list. " +
+    "Keep the answer short and practical. " +
+    (history ? "Use the conversation so far to resolve follow-up questions. " : "") +
+    `Context:\n${input.context}\n\nSources:\n${input.sourceTitles
+      .map((title) => `- ${title}`)
+      .join("\n")}\n\n` +
+    (history ? `Conversation so far:\n${history}\n\n` : "") +
+    `Question: ${input.question}`
+  );
+}
+
+function normalizeChatOutput(value: unknown): LlmChatOutput {
+  const record = (value || {}) as { answer?: unknown; sourceTitles?: unknown };
+  const answer = String(record.answer || "").trim();
+  const sourceTitles = Array.isArray(record.sourceTitles)
+    ? record.sourceTitles.map((item) => String(item || "").trim()).filter(Boolean)
+    : [];
+
+  return { answer, sourceTitles };
+}
+
+const JSON_ESCAPES: Record<string, string> = {
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t"
+};
+
+/**
+ * Reads the string value of `key` from JSON that may still be arriving. Stops at the
+ * closing quote, or before an escape sequence that is only partly received.
+ */
+function readPartialJsonString(text: string, key: string): string {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(text);
+  if (!match) return "";
+
+  let value = "";
+  for (let index = match.index + match[0].length; index < text.length; index += 1) {
+    const char = text[index];
+    if (char === '"') break;
+    if (char !== "\\") {
+      value += char;
+      continue;
+    }
+
+    const next = text[index + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = text.slice(index + 2, index + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      index += 5;
+      continue;
+    }
+    value += JSON_ESCAPES[next] ?? next;
+    index += 1;
+  }
+  return value;
+}
+
+/** Builds a provider from a JSON transport using the shared prompts and output normalization. */
+export function createPromptProvider(
+  name: string,
+  isConfigured: () => boolean,
+  transport: JsonTransport
+): LlmProvider {
+  const streamJson = transport.streamJson?.bind(transport);
+
+  return {
+    name,
+    isConfigured,
+
+    async analyzeText(input) {
+      const text = String(input.text || "").trim();
+      const ingredientList = Array.isArray(input.ingredients)
+        ? input.ingredients.map((item) => String(item || "").trim()).filter(Boolean)
+        : [];
+
+      const prompt =
+        "You analyze household cleaner ingredients for app users. " +
+        "Return only valid JSON with this schema: " +
+        '{"ingredients":[{"name":"string","risk":"safe|caution|avoid","notes":"string","concentration":"string"}],"summary":"string"}. ' +
+        'Set concentration only when the label states an amount for that ingredient, copied as printed (e.g. "5-15%", "<1%"). ' +
+        "Keep notes short and practical. " +
+        "Never provide medical diagnosis. " +
+        (text
+          ? `Input text to parse: ${text}`
+          : `Ingredient list to classify: ${JSON.stringify(ingredientList)}`);
+
+      const output = await requestValidated(name, prompt, SCAN_OUTPUT_SCHEMA, (current) =>
+        transport.generateJson({ prompt: current, schema: SCAN_OUTPUT_SCHEMA })
+      );
+      return normalizeScanOutput(output);
+    },
+
+    async extractFromImages(images) {
+      const prompt =
+        "You extract ingredient lists from product label photos for a household cleaner app. " +
+        "Return only valid JSON with this schema: " +
+        '{"ingredients":[{"name":"string","risk":"safe|caution|avoid","notes":"string","concentration":"string"}],"summary":"string"}. ' +
+        'Set concentration only when the label states an amount for that ingredient, copied as printed (e.g. "5-15%", "<1%"). ' +
+        "Only include ingredients visible on the label. " +
+        "Keep notes short. If none visible, return an empty ingredient list and a brief summary." +
+        (images.some((image) => image.label)
+          ? ` Images in order: ${images.map((image) => image.label || "unlabeled").join(", ")}.` +
+            " Ingredients are usually on the back label; use the front label for product context."
+          : "");
+
+      const output = await requestValidated(name, prompt, SCAN_OUTPUT_SCHEMA, (current) =>
+        transport.generateJsonWithImages({
+          prompt: current,
+          images: images.map((image) => ({
+            data: image.data,
+            mimeType: image.mimeType || "image/jpeg"
+          })),
+          schema: SCAN_OUTPUT_SCHEMA,
+          maxOutputTokens: 600
+        })
+      );
+
+      return normalizeScanOutput(output);
+    },
+
+    async answerQuestion(input) {
+      const prompt = buildChatPrompt(input);
+      const output = await requestValidated(name, prompt, CHAT_OUTPUT_SCHEMA, (current) =>
+        transport.generateJson({ prompt: current, ...CHAT_OPTIONS })
+      );
+      return normalizeChatOutput(output);
+    },
+
+    ...(streamJson
+      ? {
+          async streamAnswer(input, onAnswerText, signal) {
+            const prompt = buildChatPrompt(input);
+            let buffer = "";
+            let sent = 0;
+            const first = await streamJson({ prompt, ...CHAT_OPTIONS, signal }, (chunk) => {
+              buffer += chunk;
+              const answer = readPartialJsonString(buffer, "answer");
+              if (answer.length > sent) {
+                onAnswerText(answer.slice(sent));
+                sent = answer.length;
+              }
+            });
+
+            // Text already streamed can't be taken back, so a repaired answer is only
+            // delivered with the final result and replaces what the client showed.
+            let checked = checkModelResponse(name, first, CHAT_OUTPUT_SCHEMA);
+            if ("error" in checked) {
+              const repaired = await transport.generateJson({
+                prompt: buildRepairPrompt(prompt, first, checked.error),
+                ...CHAT_OPTIONS,
+                signal
+              });
+              checked = checkModelResponse(name, repaired, CHAT_OUTPUT_SCHEMA);
+            }
+            if ("error" in checked) throw checked.error;
+            return normalizeChatOutput(checked.value);
+          }
+        }
+      : {})
+  };
+}
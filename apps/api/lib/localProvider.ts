@@ -0,0 +1,153 @@
+import {
+  IngredientRisk,
+  LabelIngredient,
+  parseIngredientLabel,
+  slugify
+} from "@what-we-use/shared";
+
+import { LlmIngredient, LlmProvider, LlmScanOutput } from "./llm";
+
+type RiskRule = {
+  pattern: RegExp;
+  risk: IngredientRisk;
+  notes: string;
+};
+
+// Checked in order; the first matching rule wins.
+const RISK_RULES: RiskRule[] = [
+  {
+    pattern: /hypochlorite|bleach|chlorine/,
+    risk: "avoid",
+    notes: "Strong oxidizer; irritates eyes and airways. Never mix with acids or ammonia."
+  },
+  {
+    pattern: /ammonia|ammonium-hydroxide/,
+    risk: "avoid",
+    notes: "Releases irritating vapors; ventilate well."
+  },
+  {
+    pattern: /benzalkonium|quaternium|ammonium-chloride/,
+    risk: "avoid",
+    notes: "Quaternary ammonium disinfectant; linked to asthma and skin sensitisation."
+  },
+  {
+    pattern: /formaldehyde|dioxane|phthalate|triclosan|hydrochloric|sodium-hydroxide|(^|-)lye($|-)/,
+    risk: "avoid",
+    notes: "Hazardous at typical product concentrations."
+  },
+  {
+    pattern: /isothiazolinone|fragrance|parfum|perfume|butoxyethanol|paraben/,
+    risk: "caution",
+    notes: "Common sensitiser or irritant; avoid if you react to it."
+  },
+  {
+    pattern: /sulfate|sulphate|ethanolamine|limonene|linalool|citral|dye|colorant|alcohol/,
+    risk: "caution",
+    notes: "Can irritate skin or eyes at higher concentrations."
+  },
+  {
+    pattern:
+      /^(water|aqua)$|citric-acid|sodium-citrate|sodium-bicarbonate|baking-soda|vinegar|acetic-acid|glycerin|glucoside/,
+    risk: "safe",
+    notes: "Generally considered low concern in cleaning products."
+  }
+];
+
+function classify(name: string): LlmIngredient {
+  const slug = slugify(name);
+  const rule = RISK_RULES.find((item) => item.pattern.test(slug));
+  return {
+    name,
+    slug,
+    risk: rule?.risk || "caution",
+    notes: rule?.notes || "No local rule for this ingredient; treat with caution."
+  };
+}
+
+function summarize(ingredients: LlmIngredient[]): string {
+  if (!ingredients.length) return "No ingredients found by the local rule set.";
+  const avoid = ingredients.filter((item) => item.risk === "avoid").length;
+  const caution = ingredients.filter((item) => item.risk === "caution").length;
+  return `Local rules classified ${ingredients.length} ingredient(s): ${avoid} avoid, ${caution} caution.`;
+}
+
+function keywords(value: string): string[] {
+  return slugify(value)
+    .split("-")
+    .filter((word) => word.length > 3);
+}
+
+/**
+ * Deterministic, offline provider for development and repeatable tests.
+ * It never calls the network and always returns the same output for the same input.
+ */
+export const localProvider: LlmProvider = {
+  name: "local",
+
+  isConfigured() {
+    return true;
+  },
+
+  async analyzeText(input): Promise<LlmScanOutput> {
+    const items: LabelIngredient[] = input.text
+      ? parseIngredientLabel(input.text).ingredients
+      : (input.ingredients || []).flatMap((item) =>
+          parseIngredientLabel(String(item || "")).ingredients.slice(0, 1)
+        );
+
+    const seen = new Set<string>();
+    const classified = items.map(({ name, concentration }) => ({
+      ...classify(name),
+      ...(concentration ? { concentration } : {})
+    }));
+    const ingredients = classified.filter((item) => {
+      if (!item.slug || seen.has(item.slug)) return false;
+      seen.add(item.slug);
+      return true;
+    });
+
+    return { ingredients, summary: summarize(ingredients) };
+  },
+
+  async extractFromImages(): Promise<LlmScanOutput> {
+    return {
+      ingredients: [],
+      summary: "The local provider cannot read label photos."
+    };
+  },
+
+  async answerQuestion(input) {
+    const matchLines = (words: Set<string>) =>
+      input.context
+        .split("\n")
+        .map((line) => line.replace(/^-\s*/, "").trim())
+        .filter((line) => line && keywords(line).some((word) => words.has(word)));
+
+    let questionWords = new Set(keywords(input.question));
+    let lines = matchLines(questionWords);
+
+    // Follow-ups like "what about for pets?" borrow the subject of the previous question.
+    const previous = [...(input.history || [])].reverse().find((item) => item.role === "user");
+    if (!lines.length && previous) {
+      questionWords = new Set([...questionWords, ...keywords(previous.content)]);
+      lines = matchLines(questionWords);
+    }
+
+    if (!lines.length) {
+      return {
+        answer: "I don't have proof for that in this scan. Please check the listed sources.",
+        sourceTitles: []
+      };
+    }
+
+    const matchedWords = new Set(lines.flatMap(keywords));
+    const sourceTitles = input.sourceTitles.filter((title) =>
+      keywords(title).some((word) => matchedWords.has(word) || questionWords.has(word))
+    );
+
+    return {
+      answer: `From this scan: ${lines.join(" ")}`,
+      sourceTitles
+    };
+  }
+};
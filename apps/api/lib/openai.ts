@@ -0,0 +1,164 @@
+import {
+  JsonTransport,
+  LlmProvider,
+  TransportResponse,
+  createPromptProvider,
+  fetchWithRetry,
+  readServerSentEvents,
+  toFriendlyProviderError
+} from "./llm";
+import { JsonSchema } from "./schemas";
+
+// Any server that speaks the chat completions API works here, e.g. a local
+// llama.cpp, Ollama or vLLM instance.
+const DEFAULT_BASE_URL = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(
+  /\/+$/,
+  ""
+);
+const DEFAULT_MODEL = process.env.OPENAI_MODEL || "gpt-4o-mini";
+const DEFAULT_VISION_MODEL = process.env.OPENAI_VISION_MODEL || DEFAULT_MODEL;
+
+type ChatContent =
+  | string
+  | Array<{ type: "text"; text: string } | { type: "image_url"; image_url: { url: string } }>;
+
+type CompletionOptions = {
+  schema: JsonSchema;
+  temperature: number;
+  maxOutputTokens: number;
+  signal?: AbortSignal;
+};
+
+function buildRequest(
+  model: string,
+  content: ChatContent,
+  options: CompletionOptions,
+  stream: boolean
+): RequestInit {
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  return {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model,
+      messages: [{ role: "user", content }],
+      temperature: options.temperature,
+      max_tokens: options.maxOutputTokens,
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: "response", schema: options.schema }
+      },
+      ...(stream ? { stream: true } : {})
+    }),
+    signal: options.signal
+  };
+}
+
+async function createChatCompletion(
+  model: string,
+  content: ChatContent,
+  options: CompletionOptions
+): Promise<TransportResponse> {
+  const response = await fetchWithRetry(
+    `${DEFAULT_BASE_URL}/chat/completions`,
+    buildRequest(model, content, options, false)
+  );
+
+  if (!response.ok) {
+    const details = await response.text();
+    throw new Error(toFriendlyProviderError("OpenAI-compatible", response.status, details));
+  }
+
+  const payload = await response.json();
+  const choice = payload?.choices?.[0];
+
+  return {
+    text: String(choice?.message?.content || ""),
+    truncated: choice?.finish_reason === "length"
+  };
+}
+
+async function streamChatCompletion(
+  model: string,
+  content: ChatContent,
+  options: CompletionOptions,
+  onText: (chunk: string) => void
+): Promise<TransportResponse> {
+  const response = await fetchWithRetry(
+    `${DEFAULT_BASE_URL}/chat/completions`,
+    buildRequest(model, content, options, true)
+  );
+
+  if (!response.ok) {
+    const details = await response.text();
+    throw new Error(toFriendlyProviderError("OpenAI-compatible", response.status, details));
+  }
+
+  let text = "";
+  let finishReason: string | undefined;
+  await readServerSentEvents(response, (data) => {
+    if (data === "[DONE]") return;
+    const choice = JSON.parse(data)?.choices?.[0];
+    const chunk = String(choice?.delta?.content || "");
+    if (chunk) {
+      text += chunk;
+      onText(chunk);
+    }
+    finishReason = choice?.finish_reason || finishReason;
+  });
+
+  return { text, truncated: finishReason === "length" };
+}
+
+const openAiTransport: JsonTransport = {
+  generateJson(input) {
+    return createChatCompletion(DEFAULT_MODEL, input.prompt, {
+      schema: input.schema,
+      temperature: input.temperature ?? 0.1,
+      maxOutputTokens: input.maxOutputTokens ?? 1200,
+      signal: input.signal
+    });
+  },
+
+  streamJson(input, onText) {
+    return streamChatCompletion(
+      DEFAULT_MODEL,
+      input.prompt,
+      {
+        schema: input.schema,
+        temperature: input.temperature ?? 0.1,
+        maxOutputTokens: input.maxOutputTokens ?? 1200,
+        signal: input.signal
+      },
+      onText
+    );
+  },
+
+  generateJsonWithImages(input) {
+    return createChatCompletion(
+      DEFAULT_VISION_MODEL,
+      [
+        { type: "text", text: input.prompt },
+        ...input.images.map((image) => ({
+          type: "image_url" as const,
+          image_url: { url: `data:${image.mimeType || "image/jpeg"};base64,${image.data}` }
+        }))
+      ],
+      {
+        schema: input.schema,
+        temperature: 0.1,
+        maxOutputTokens: input.maxOutputTokens ?? 1200
+      }
+    );
+  }
+};
+
+export const openAiProvider: LlmProvider = createPromptProvider(
+  "openai",
+  () => Boolean(process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL),
+  openAiTransport
+);
@@ -0,0 +1,127 @@
+import { IngredientRisk, Product, ScanResult } from "@what-we-use/shared";
+
+import { getFirestore } from "./firestore";
+
+/** Thrown by `saveProduct` with `createOnly` when the barcode already has a record. */
+export class ProductExistsError extends Error {}
+
+// Stored as numbers so a category can be queried best-rated first.
+const RISK_RANK: Record<IngredientRisk, number> = { safe: 1, caution: 2, avoid: 3 };
+
+function collection() {
+  return getFirestore().collection("products");
+}
+
+function toStringArray(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.map((item) => String(item || "").trim()).filter(Boolean);
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+export function mapProductRecord(gtin: string, data: Record<string, unknown>): Product {
+  const brand = readString(data.brand);
+  const category = readString(data.category);
+  const labelText = readString(data.label_text);
+  const lastAnalyzedAt = readString(data.last_analyzed_at);
+  const updatedAt = readString(data.updated_at);
+  const lastResult =
+    data.last_result && typeof data.last_result === "object"
+      ? (data.last_result as ScanResult)
+      : undefined;
+
+  return {
+    gtin,
+    name: readString(data.name) || gtin,
+    ...(brand ? { brand } : {}),
+    ...(category ? { category } : {}),
+    ingredientSlugs: toStringArray(data.ingredient_slugs),
+    ...(labelText ? { labelText } : {}),
+    ...(lastAnalyzedAt ? { lastAnalyzedAt } : {}),
+    ...(lastResult ? { lastResult } : {}),
+    ...(updatedAt ? { updatedAt } : {})
+  };
+}
+
+/** `gtin` must already be normalized with `normalizeBarcode`. */
+export async function getProductByBarcode(gtin: string): Promise<Product | null> {
+  const snapshot = await collection().doc(gtin).get();
+  return snapshot.exists
+    ? mapProductRecord(gtin, (snapshot.data() || {}) as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Analyzed products of one type rated `maxRisk` or better, lowest risk then highest score
+ * first. Needs the composite index on `category`, `risk_rank` and `score` (descending).
+ */
+export async function listProductsByCategory(
+  category: string,
+  options: { maxRisk: IngredientRisk; limit: number }
+): Promise<Product[]> {
+  const snapshot = await collection()
+    .where("category", "==", category)
+    .where("risk_rank", "<=", RISK_RANK[options.maxRisk])
+    .orderBy("risk_rank")
+    .orderBy("score", "desc")
+    .limit(options.limit)
+    .get();
+  return snapshot.docs
+    .map((doc) => mapProductRecord(doc.id, doc.data() as Record<string, unknown>))
+    .filter((product) => product.lastResult);
+}
+
+/**
+ * Creates or updates a product. Fields left out keep their stored values; a `result`
+ * replaces the last analysis and the ingredient slugs derived from it. With `createOnly`
+ * an existing record is left untouched and `ProductExistsError` is thrown.
+ */
+export async function saveProduct(input: {
+  gtin: string;
+  name: string;
+  brand?: string;
+  category?: string;
+  labelText?: string;
+  result?: ScanResult;
+  createOnly?: boolean;
+}): Promise<Product> {
+  const now = new Date().toISOString();
+  const fields: Record<string, unknown> = {
+    gtin: input.gtin,
+    name: input.name,
+    updated_at: now,
+    ...(input.brand ? { brand: input.brand } : {}),
+    ...(input.category ? { category: input.category } : {}),
+    ...(input.labelText ? { label_text: input.labelText } : {})
+  };
+
+  if (input.result) {
+    // Cache and request metadata describe one response, not the product.
+    const { meta: _meta, sensitivities: _sensitivities, ...result } = input.result;
+    fields.last_result = result;
+    fields.last_analyzed_at = now;
+    fields.ingredient_slugs = Array.from(new Set(result.ingredients.map((item) => item.slug)));
+    fields.risk_rank = RISK_RANK[result.overallRisk];
+    fields.score = result.score?.score ?? 0;
+  }
+
+  const ref = collection().doc(input.gtin);
+  // Firestore rejects undefined values anywhere in the document.
+  const document = JSON.parse(JSON.stringify(fields));
+  if (input.createOnly) {
+    try {
+      await ref.create(document);
+    } catch (error) {
+      // gRPC status 6 is ALREADY_EXISTS.
+      if ((error as { code?: unknown })?.code === 6) throw new ProductExistsError(input.gtin);
+      throw error;
+    }
+  } else {
+    await ref.set(document, { merge: true });
+  }
+
+  const snapshot = await ref.get();
+  return mapProductRecord(input.gtin, (snapshot.data() || {}) as Record<string, unknown>);
+}
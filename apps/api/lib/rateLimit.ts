@@ -0,0 +1,219 @@
+import { createHash } from "node:crypto";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { Identity } from "./auth";
+import { jsonWithCors } from "./cors";
+import { getFirestore, isFirestoreConfigured } from "./firestore";
+
+export interface RateLimitRule {
+  /** Bucket size: how many requests can be made in a burst. */
+  capacity: number;
+  /** Seconds for an empty bucket to refill completely. */
+  windowSeconds: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimitStore {
+  take(id: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision>;
+}
+
+export type RateLimitedRoute =
+  | "scan"
+  | "scan-image"
+  | "analyze"
+  | "chat"
+  | "products"
+  | "product-lookup"
+  | "alternatives"
+  | "compare";
+
+const DEFAULT_LIMITS: Record<RateLimitedRoute, RateLimitRule> = {
+  scan: { capacity: 20, windowSeconds: 60 },
+  "scan-image": { capacity: 5, windowSeconds: 60 },
+  analyze: { capacity: 20, windowSeconds: 60 },
+  chat: { capacity: 30, windowSeconds: 60 },
+  products: { capacity: 20, windowSeconds: 60 },
+  "product-lookup": { capacity: 60, windowSeconds: 60 },
+  alternatives: { capacity: 30, windowSeconds: 60 },
+  compare: { capacity: 30, windowSeconds: 60 }
+};
+
+/** RATE_LIMIT_SCAN_IMAGE="10/60" allows bursts of 10 requests refilling over 60 seconds. */
+function parseRule(value: string | undefined): RateLimitRule | null {
+  const match = String(value || "").match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+  if (!match) return null;
+  const capacity = Number(match[1]);
+  const windowSeconds = Number(match[2]);
+  if (capacity <= 0 || windowSeconds <= 0) return null;
+  return { capacity, windowSeconds };
+}
+
+export function getRateLimitRule(route: RateLimitedRoute): RateLimitRule {
+  const envName = `RATE_LIMIT_${route.replace(/-/g, "_").toUpperCase()}`;
+  return parseRule(process.env[envName]) || DEFAULT_LIMITS[route];
+}
+
+type Bucket = { tokens: number; updatedAt: number };
+
+function refill(bucket: Bucket | null, rule: RateLimitRule, now: number): Bucket {
+  if (!bucket) return { tokens: rule.capacity, updatedAt: now };
+  const perMs = rule.capacity / (rule.windowSeconds * 1000);
+  const tokens = Math.min(rule.capacity, bucket.tokens + (now - bucket.updatedAt) * perMs);
+  return { tokens, updatedAt: now };
+}
+
+function decide(bucket: Bucket, rule: RateLimitRule): { next: Bucket; decision: RateLimitDecision } {
+  if (bucket.tokens >= 1) {
+    const next = { ...bucket, tokens: bucket.tokens - 1 };
+    return {
+      next,
+      decision: { allowed: true, remaining: Math.floor(next.tokens), retryAfterSeconds: 0 }
+    };
+  }
+
+  const perSecond = rule.capacity / rule.windowSeconds;
+  return {
+    next: bucket,
+    decision: {
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: Math.max(1, Math.ceil((1 - bucket.tokens) / perSecond))
+    }
+  };
+}
+
+const MEMORY_SWEEP_INTERVAL_MS = 60 * 1000;
+
+function createMemoryStore(): RateLimitStore {
+  // `fullAt` is when the bucket has refilled completely; from then on it is the same as no
+  // bucket at all, so the sweep drops it.
+  const buckets = new Map<string, { bucket: Bucket; fullAt: number }>();
+  let lastSweep = 0;
+
+  return {
+    async take(id, rule, now) {
+      if (now - lastSweep >= MEMORY_SWEEP_INTERVAL_MS) {
+        lastSweep = now;
+        for (const [key, entry] of buckets) {
+          if (entry.fullAt <= now) buckets.delete(key);
+        }
+      }
+
+      const { next, decision } = decide(refill(buckets.get(id)?.bucket || null, rule, now), rule);
+      const missing = rule.capacity - next.tokens;
+      buckets.set(id, {
+        bucket: next,
+        fullAt: now + (missing / rule.capacity) * rule.windowSeconds * 1000
+      });
+      return decision;
+    }
+  };
+}
+
+function createFirestoreStore(): RateLimitStore {
+  return {
+    async take(id, rule, now) {
+      const db = getFirestore();
+      const ref = db.collection("rateLimits").doc(id);
+      return db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        const stored = snapshot.exists ? (snapshot.data() as Bucket) : null;
+        const { next, decision } = decide(refill(stored, rule, now), rule);
+        transaction.set(ref, {
+          ...next,
+          expiresAt: new Date(now + rule.windowSeconds * 1000)
+        });
+        return decision;
+      });
+    }
+  };
+}
+
+let cachedStore: RateLimitStore | null | undefined;
+
+/** Picks the store from RATE_LIMIT_STORE ("firestore", "memory" or "off"). */
+export function getRateLimitStore(): RateLimitStore | null {
+  if (cachedStore !== undefined) return cachedStore;
+
+  const configured = String(process.env.RATE_LIMIT_STORE || "")
+    .trim()
+    .toLowerCase();
+  const kind = configured || (isFirestoreConfigured() ? "firestore" : "memory");
+
+  if (kind === "off") {
+    cachedStore = null;
+  } else if (kind === "firestore") {
+    cachedStore = createFirestoreStore();
+  } else {
+    cachedStore = createMemoryStore();
+  }
+
+  return cachedStore;
+}
+
+function hashId(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 32);
+}
+
+/**
+ * The platform-verified address when there is one (Vercel sets `request.ip`). Otherwise the
+ * last `X-Forwarded-For` entry, which the nearest proxy appended: the earlier entries come
+ * from the client and can be rotated to dodge the limit.
+ */
+export function getClientIp(request: NextRequest): string {
+  if (request.ip) return request.ip;
+  const forwarded = request.headers.get("x-forwarded-for");
+  const lastHop = forwarded?.split(",").pop()?.trim();
+  return lastHop || request.headers.get("x-real-ip") || "unknown";
+}
+
+/** Verified users and API keys get their own bucket; anonymous callers are limited per IP. */
+function getSubject(request: NextRequest, identity: Identity): string {
+  if (identity.kind === "user") return `user:${hashId(identity.uid)}`;
+  if (identity.kind === "apiKey") return `key:${identity.keyId}`;
+  return `ip:${hashId(getClientIp(request))}`;
+}
+
+/**
+ * Returns a 429 response when the caller is over the route's limit, or null to proceed.
+ * Store failures fail open so a Firestore hiccup doesn't take the API down.
+ */
+export async function enforceRateLimit(
+  request: NextRequest,
+  route: RateLimitedRoute,
+  identity: Identity
+): Promise<NextResponse | null> {
+  const store = getRateLimitStore();
+  if (!store) return null;
+
+  const rule = getRateLimitRule(route);
+  let decision: RateLimitDecision;
+  try {
+    decision = await store.take(`${route}:${getSubject(request, identity)}`, rule, Date.now());
+  } catch {
+    return null;
+  }
+
+  if (decision.allowed) return null;
+
+  return jsonWithCors(
+    {
+      error: "Too many requests. Please try again in a moment.",
+      retryAfterSeconds: decision.retryAfterSeconds
+    },
+    {
+      status: 429,
+      headers: {
+        "Retry-After": String(decision.retryAfterSeconds),
+        "X-RateLimit-Limit": String(rule.capacity),
+        "X-RateLimit-Remaining": "0"
+      }
+    }
+  );
+}
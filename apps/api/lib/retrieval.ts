@@ -0,0 +1,163 @@
+import { SourceRef, slugify } from "@what-we-use/shared";
+
+import {
+  IngredientAliasEntry,
+  IngredientSummary,
+  getIngredientAliasIndex,
+  getIngredientSummaries,
+  getIngredientsBySlugs,
+  isFirestoreConfigured
+} from "./firestore";
+
+export interface CatalogPassage {
+  slug: string;
+  name: string;
+  text: string;
+  sources: SourceRef[];
+}
+
+const DEFAULT_LIMIT = 6;
+const MAX_NAME_WORDS = 4;
+
+// Words that show up in most questions but say nothing about which records are relevant.
+const STOPWORDS = new Set([
+  "about",
+  "cleaner",
+  "could",
+  "does",
+  "from",
+  "have",
+  "ingredient",
+  "into",
+  "product",
+  "safe",
+  "should",
+  "that",
+  "there",
+  "these",
+  "this",
+  "those",
+  "using",
+  "what",
+  "when",
+  "which",
+  "with",
+  "would",
+  "your"
+]);
+
+function stem(word: string): string {
+  return word.replace(/(es|s)$/, "");
+}
+
+function keywords(value: string): string[] {
+  return slugify(value)
+    .split("-")
+    .filter((word) => word.length > 3)
+    .map(stem)
+    .filter((word) => !STOPWORDS.has(word));
+}
+
+/** Catalog entries whose slug, name or alias appears word for word in the text. */
+function findNamedIngredients(text: string, index: Map<string, IngredientAliasEntry>): string[] {
+  const words = slugify(text).split("-").filter(Boolean);
+  const slugs: string[] = [];
+
+  for (let start = 0; start < words.length; start += 1) {
+    // Longest phrase first, so "sodium lauryl sulfate" wins over "sodium".
+    for (let size = Math.min(MAX_NAME_WORDS, words.length - start); size >= 1; size -= 1) {
+      const entry = index.get(words.slice(start, start + size).join("-"));
+      if (!entry) continue;
+      slugs.push(entry.slug);
+      start += size - 1;
+      break;
+    }
+  }
+
+  return slugs;
+}
+
+/** Ranks entries by how many question keywords hit their health flags, category or name. */
+function searchByKeyword(text: string, summaries: IngredientSummary[]): string[] {
+  const words = new Set(keywords(text));
+  if (!words.size) return [];
+
+  return summaries
+    .map((summary) => {
+      const terms = new Set(
+        [summary.name, summary.category, ...summary.healthFlags].flatMap(keywords)
+      );
+      const hits = [...words].filter((word) => terms.has(word)).length;
+      return { slug: summary.slug, hits };
+    })
+    .filter((item) => item.hits > 0)
+    .sort((a, b) => b.hits - a.hits)
+    .map((item) => item.slug);
+}
+
+function readLimit(): number {
+  const parsed = Number(process.env.CHAT_RETRIEVAL_LIMIT);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : DEFAULT_LIMIT;
+}
+
+/**
+ * Finds catalog records relevant to a chat question: ingredients named in the question
+ * (by slug, name or alias), then keyword matches on health flags and categories, then the
+ * scanned ingredients. Returns nothing when Firestore isn't configured or the catalog
+ * can't be read, so chat still answers from the scan alone.
+ */
+export async function retrieveCatalogPassages(input: {
+  queries: string[];
+  scanSlugs: string[];
+}): Promise<CatalogPassage[]> {
+  const limit = readLimit();
+  if (!limit || !isFirestoreConfigured()) return [];
+
+  try {
+    const text = input.queries.join(" ");
+    const [aliasIndex, summaries] = await Promise.all([
+      getIngredientAliasIndex(),
+      getIngredientSummaries()
+    ]);
+
+    const scanned = input.scanSlugs
+      .map((slug) => aliasIndex.get(slugify(slug))?.slug)
+      .filter((slug): slug is string => Boolean(slug));
+    const slugs = [
+      ...new Set([
+        ...findNamedIngredients(text, aliasIndex),
+        ...searchByKeyword(text, summaries),
+        ...scanned
+      ])
+    ].slice(0, limit);
+    if (!slugs.length) return [];
+
+    const { records } = await getIngredientsBySlugs(slugs);
+    return slugs
+      .map((slug) => records.get(slug))
+      .filter((record) => record !== undefined)
+      .map((record) => {
+        const details = [
+          `risk: ${record.risk}`,
+          `category: ${record.category}`,
+          record.healthFlags.length ? `health flags: ${record.healthFlags.join(", ")}` : "",
+          record.aliases.length ? `also called: ${record.aliases.join(", ")}` : "",
+          record.regulatoryNotes ? `regulatory: ${record.regulatoryNotes}` : "",
+          record.sources.length
+            ? `sources: ${record.sources.map((source) => source.title || source.url).join(", ")}`
+            : ""
+        ]
+          .filter(Boolean)
+          .join("; ");
+
+        return {
+          slug: record.slug,
+          name: record.name,
+          text: `${record.name} (${details})`,
+          sources: record.sources
+        };
+      });
+  } catch {
+    return [];
+  }
+}
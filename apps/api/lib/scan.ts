@@ -1,12 +1,38 @@
 import {
+  ConcentrationBand,
   Ingredient,
+  IngredientMatchSuggestion,
+  IngredientRisk,
+  ScanMeta,
   ScanResult,
+  SensitivityProfile,
+  findInteractions,
   getOverallRisk,
+  matchSensitivities,
   normalizeRisk,
-  slugify
+  parseGhsHazards,
+  parseIngredientLabel,
+  scoreProduct,
+  slugify,
+  weighRiskByConcentration
 } from "@what-we-use/shared";
-import { GeminiScanOutput, analyzeWithGemini } from "./gemini";
-import { getIngredientBySlug, isFirestoreConfigured } from "./firestore";
+import { analyzeIngredients, getLlmProvider, isLlmConfigured } from "./ai";
+import {
+  IngredientAliasEntry,
+  IngredientRecord,
+  findClosestIngredient,
+  getIngredientAliasIndex,
+  getIngredientsBySlugs,
+  isFirestoreConfigured
+} from "./firestore";
+import { FUZZY_MATCH_THRESHOLD, FUZZY_SUGGEST_THRESHOLD } from "./fuzzy";
+import { LlmScanOutput, PROMPT_VERSION, describeModelError } from "./llm";
+import {
+  SCAN_CACHE_TTL_MS,
+  buildScanCacheKey,
+  getCatalogVersion,
+  getScanCacheStore
+} from "./scanCache";
 
 function summarizeFromIngredients(ingredients: Ingredient[]): string {
   if (ingredients.length === 0) {
@@ -26,52 +52,117 @@ function summarizeFromIngredients(ingredients: Ingredient[]): string {
   } caution, ${counts.safe || 0} safe.`;
 }
 
-export async function createScanResult(input: {
+// Model output has no calibrated confidence, so provenance sets a fixed level for it.
+const AI_CONFIDENCE = 0.6;
+const FALLBACK_CONFIDENCE = 0.2;
+
+type CatalogMatch = {
+  name: string;
+  slug: string;
+  catalog: { slug: string; alias?: string; score: number } | null;
+  suggestedMatch?: IngredientMatchSuggestion;
+};
+
+/** Records the band and, when it changes the rating, keeps the unweighted one as `baseRisk`. */
+function applyConcentration(
+  ingredient: Ingredient,
+  band: ConcentrationBand | undefined
+): Ingredient {
+  if (!band) return ingredient;
+  const risk = weighRiskByConcentration(ingredient.risk, band);
+  return {
+    ...ingredient,
+    concentration: band,
+    ...(risk !== ingredient.risk ? { risk, baseRisk: ingredient.risk } : {})
+  };
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+/** Rejoins catalog names that OCR split across lines, e.g. "Sodium Lauryl" + "Sulfate". */
+function joinSplitNames(
+  names: string[],
+  index: Map<string, IngredientAliasEntry>,
+  threshold: number
+): string[] {
+  const joined: string[] = [];
+
+  for (let i = 0; i < names.length; i += 1) {
+    const current = names[i];
+    const next = names[i + 1];
+
+    if (next && !index.has(slugify(current)) && !index.has(slugify(next))) {
+      const candidate = current.endsWith("-")
+        ? `${current.slice(0, -1)}${next}`
+        : `${current} ${next}`;
+      const combined = findClosestIngredient(candidate, index, threshold);
+      const alone = findClosestIngredient(current, index, threshold);
+      if (combined && (!alone || combined.score > alone.score)) {
+        joined.push(candidate);
+        i += 1;
+        continue;
+      }
+    }
+
+    joined.push(current);
+  }
+
+  return joined;
+}
+
+type ScanInput = {
   text?: string;
   ingredients?: string[];
-  geminiData?: GeminiScanOutput;
+  aiData?: LlmScanOutput;
   skipAi?: boolean;
-}): Promise<ScanResult> {
+  fuzzyThreshold?: number;
+  sensitivities?: SensitivityProfile[];
+};
+
+async function buildScanResult(input: ScanInput): Promise<ScanResult> {
   const text = String(input.text || "").trim();
   const directIngredients = Array.isArray(input.ingredients)
     ? input.ingredients.map((item) => String(item || "").trim()).filter(Boolean)
     : [];
 
-  let geminiData: GeminiScanOutput =
-    input.geminiData || {
+  let aiData: LlmScanOutput =
+    input.aiData || {
       ingredients: [],
       summary: ""
     };
-  const shouldCallGemini = !input.geminiData && !input.skipAi;
+  const shouldCallAi = !input.aiData && !input.skipAi;
+  const meta: ScanMeta = {};
+  let aiIsFallback = false;
 
-  if (shouldCallGemini && text) {
+  if (shouldCallAi && text) {
     try {
-      geminiData = await analyzeWithGemini({ text });
-    } catch {
-      geminiData = {
-        ingredients: text
-          .split(/[,;\n]/g)
-          .map((item) => item.trim())
-          .filter(Boolean)
-          .map((name) => ({
-            name,
-            slug: slugify(name),
-            risk: "caution"
-          })),
+      aiData = await analyzeIngredients({ text });
+    } catch (error) {
+      meta.aiError = describeModelError(error);
+      aiIsFallback = true;
+      aiData = {
+        ingredients: parseIngredientLabel(text).ingredients.map((item) => ({
+          name: item.name,
+          slug: slugify(item.name),
+          risk: "caution"
+        })),
         summary: "Fallback parser used because AI extraction was unavailable."
       };
     }
-  } else if (shouldCallGemini && directIngredients.length > 0 && process.env.GEMINI_API_KEY) {
+  } else if (shouldCallAi && directIngredients.length > 0 && isLlmConfigured()) {
     try {
-      geminiData = await analyzeWithGemini({ ingredients: directIngredients });
-    } catch {
-      geminiData = { ingredients: [], summary: "" };
+      aiData = await analyzeIngredients({ ingredients: directIngredients });
+    } catch (error) {
+      meta.aiError = describeModelError(error);
+      aiData = { ingredients: [], summary: "" };
     }
   }
 
   const sourceNames =
-    geminiData.ingredients.length > 0
-      ? geminiData.ingredients.map((item) => item.name)
+    aiData.ingredients.length > 0
+      ? aiData.ingredients.map((item) => item.name)
       : directIngredients;
 
   const seen = new Set<string>();
@@ -82,46 +173,235 @@ export async function createScanResult(input: {
     return true;
   });
 
-  const aiBySlug = new Map(geminiData.ingredients.map((item) => [item.slug, item]));
+  const aiBySlug = new Map(aiData.ingredients.map((item) => [item.slug, item]));
+
+  // Amounts read from the label text win over the model's copy of them.
+  const bandBySlug = new Map<string, ConcentrationBand>();
+  for (const item of aiData.ingredients) {
+    if (item.concentration) bandBySlug.set(item.slug, item.concentration);
+  }
+  for (const item of text ? parseIngredientLabel(text).ingredients : []) {
+    if (item.concentration) bandBySlug.set(slugify(item.name), item.concentration);
+  }
   const canUseFirestore = isFirestoreConfigured();
+  const fuzzyThreshold = input.fuzzyThreshold ?? FUZZY_MATCH_THRESHOLD;
+  const suggestThreshold = Math.min(FUZZY_SUGGEST_THRESHOLD, fuzzyThreshold);
 
-  const ingredients: Ingredient[] = await Promise.all(
-    uniqueNames.map(async (name) => {
-      const slug = slugify(name);
-      const ai = aiBySlug.get(slug);
-
-      if (canUseFirestore) {
-        try {
-          const fromStore = await getIngredientBySlug(slug);
-          if (fromStore) {
-            return {
-              name: fromStore.name,
-              slug: fromStore.slug,
-              risk: normalizeRisk(fromStore.risk),
-              notes: fromStore.notes || ai?.notes,
-              regulatoryNotes: fromStore.regulatoryNotes || undefined,
-              sources: fromStore.sources.length ? fromStore.sources : undefined
-            };
-          }
-        } catch {
-          // Continue with AI fallback when Firestore read fails.
-        }
-      }
+  let aliasIndex: Map<string, IngredientAliasEntry> | null = null;
+  if (canUseFirestore) {
+    try {
+      aliasIndex = await getIngredientAliasIndex();
+    } catch {
+      // Exact slug lookups still work when the catalog index cannot be loaded.
+      meta.catalogIndexUnavailable = true;
+    }
+  }
 
+  const names = aliasIndex ? joinSplitNames(uniqueNames, aliasIndex, fuzzyThreshold) : uniqueNames;
+
+  const matches = names.map((name): CatalogMatch => {
+    const slug = slugify(name);
+    if (!aliasIndex) {
+      return { name, slug, catalog: canUseFirestore ? { slug, score: 1 } : null };
+    }
+
+    const closest = findClosestIngredient(name, aliasIndex, suggestThreshold);
+    if (!closest) return { name, slug, catalog: null };
+
+    if (closest.score >= fuzzyThreshold) {
       return {
         name,
         slug,
-        risk: normalizeRisk(ai?.risk || "caution"),
-        notes: ai?.notes
+        catalog: {
+          slug: closest.entry.slug,
+          alias: closest.entry.alias,
+          score: roundScore(closest.score)
+        }
       };
-    })
-  );
+    }
+
+    return {
+      name,
+      slug,
+      catalog: null,
+      suggestedMatch: {
+        name: closest.entry.name,
+        slug: closest.entry.slug,
+        score: roundScore(closest.score)
+      }
+    };
+  });
 
-  const summary = geminiData.summary || summarizeFromIngredients(ingredients);
+  let records = new Map<string, IngredientRecord>();
+  const catalogSlugs = matches
+    .map((match) => match.catalog?.slug)
+    .filter((slug): slug is string => Boolean(slug));
+  if (catalogSlugs.length) {
+    try {
+      const batch = await getIngredientsBySlugs(catalogSlugs);
+      records = batch.records;
+      if (batch.failedSlugs.length) {
+        meta.catalogReadFailures = batch.failedSlugs;
+      }
+    } catch {
+      meta.catalogReadFailures = Array.from(new Set(catalogSlugs));
+    }
+  }
+
+  const resolved: Ingredient[] = matches.map(({ name, slug, catalog, suggestedMatch }) => {
+    const ai = aiBySlug.get(slug);
+    const fromStore = catalog ? records.get(catalog.slug) : undefined;
+
+    if (catalog && fromStore) {
+      return {
+        name: fromStore.name,
+        slug: fromStore.slug,
+        risk: normalizeRisk(fromStore.risk),
+        notes: fromStore.notes || ai?.notes,
+        regulatoryNotes: fromStore.regulatoryNotes || undefined,
+        sources: fromStore.sources.length ? fromStore.sources : undefined,
+        category: fromStore.category,
+        ...(fromStore.healthFlags.length ? { healthFlags: fromStore.healthFlags } : {}),
+        ...(catalog.alias ? { matchedAlias: catalog.alias } : {}),
+        matchScore: catalog.score,
+        provenance: "catalog",
+        confidence: catalog.score
+      };
+    }
+
+    const fromAi = Boolean(ai) && !aiIsFallback;
+    return {
+      name,
+      slug,
+      risk: normalizeRisk(ai?.risk || "caution"),
+      notes: ai?.notes,
+      ...(suggestedMatch ? { suggestedMatch } : {}),
+      provenance: fromAi ? "ai" : "fallback",
+      confidence: fromAi ? AI_CONFIDENCE : FALLBACK_CONFIDENCE
+    };
+  });
+
+  // Different label spellings ("bleach", "sodium hypochlorite") can resolve to one catalog entry.
+  const resolvedSlugs = new Set<string>();
+  const ingredients = resolved
+    .map((item, index) => applyConcentration(item, bandBySlug.get(matches[index].slug)))
+    .filter((item) => {
+      if (resolvedSlugs.has(item.slug)) return false;
+      resolvedSlugs.add(item.slug);
+      return true;
+    });
+
+  const summary = aiData.summary || summarizeFromIngredients(ingredients);
+  // A label that says "DANGER" or prints a hazard statement can't rate lower than that,
+  // whatever its ingredients resolved to.
+  const hazards = text ? parseGhsHazards(text) : null;
+  const interactions = findInteractions(ingredients);
 
   return {
     ingredients,
-    overallRisk: getOverallRisk(ingredients),
-    summary
+    overallRisk: getOverallRisk([...ingredients, ...(hazards ? [{ risk: hazards.risk }] : [])]),
+    summary,
+    ...(ingredients.some((item) => item.provenance === "fallback") ? { usedFallback: true } : {}),
+    ...(hazards ? { hazards } : {}),
+    ...(interactions.length ? { interactions } : {}),
+    score: scoreProduct({ ingredients, hazards }),
+    ...(Object.keys(meta).length ? { meta } : {})
   };
 }
+
+const RAISED_RISK: Record<IngredientRisk, IngredientRisk> = {
+  safe: "caution",
+  caution: "avoid",
+  avoid: "avoid"
+};
+
+/**
+ * Raises each ingredient one level when its health flags match the user's sensitivity
+ * profiles, then rescores. Applied after the cache so cached results stay the same for
+ * everyone.
+ */
+export function personalizeScanResult(
+  result: ScanResult,
+  profiles: SensitivityProfile[] | undefined
+): ScanResult {
+  if (!profiles?.length) return result;
+
+  const ingredients = result.ingredients.map((ingredient): Ingredient => {
+    const sensitivityMatches = matchSensitivities(ingredient, profiles);
+    if (!sensitivityMatches.length) return ingredient;
+    const risk = RAISED_RISK[ingredient.risk];
+    return {
+      ...ingredient,
+      risk,
+      sensitivityMatches,
+      ...(risk !== ingredient.risk ? { generalRisk: ingredient.risk } : {})
+    };
+  });
+
+  return {
+    ...result,
+    ingredients,
+    overallRisk: getOverallRisk([...ingredients, { risk: result.overallRisk }]),
+    score: scoreProduct({ ingredients, hazards: result.hazards }),
+    sensitivities: profiles
+  };
+}
+
+async function getScanCacheKey(input: ScanInput): Promise<string | null> {
+  if (input.aiData || input.skipAi) return null;
+
+  const text = String(input.text || "").trim();
+  const ingredients = (input.ingredients || []).map((item) => String(item || "").trim());
+  const cacheText = text || `ingredients:${ingredients.filter(Boolean).join(",")}`;
+  if (!text && !ingredients.some(Boolean)) return null;
+
+  return buildScanCacheKey({
+    text: input.fuzzyThreshold === undefined ? cacheText : `${input.fuzzyThreshold}|${cacheText}`,
+    catalogVersion: await getCatalogVersion(),
+    promptVersion: PROMPT_VERSION,
+    provider: getLlmProvider().name
+  });
+}
+
+export async function createScanResult(input: ScanInput): Promise<ScanResult> {
+  const store = getScanCacheStore();
+  let key: string | null = null;
+
+  if (store) {
+    try {
+      key = await getScanCacheKey(input);
+      const entry = key ? await store.get(key) : null;
+      if (entry) {
+        return personalizeScanResult(
+          {
+            ...entry.result,
+            meta: { ...entry.result.meta, cached: true, cachedAt: entry.cachedAt }
+          },
+          input.sensitivities
+        );
+      }
+    } catch {
+      // A cache outage should never block a scan.
+    }
+  }
+
+  const result = await buildScanResult(input);
+
+  // Degraded results (AI or catalog errors) are not worth repeating for a week.
+  const degraded =
+    result.meta?.aiError || result.meta?.catalogReadFailures || result.meta?.catalogIndexUnavailable;
+  if (store && key && !degraded) {
+    const now = Date.now();
+    await store
+      .set(key, {
+        result,
+        cachedAt: new Date(now).toISOString(),
+        expiresAt: now + SCAN_CACHE_TTL_MS
+      })
+      .catch(() => {
+        // Ignore cache write errors.
+      });
+  }
+
+  return personalizeScanResult(result, input.sensitivities);
+}
@@ -0,0 +1,157 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+
+import { ScanResult } from "@what-we-use/shared";
+
+import { getFirestore, isFirestoreConfigured } from "./firestore";
+
+export interface ScanCacheEntry {
+  result: ScanResult;
+  cachedAt: string;
+  expiresAt: number;
+}
+
+export interface ScanCacheStore {
+  get(key: string): Promise<ScanCacheEntry | null>;
+  set(key: string, entry: ScanCacheEntry): Promise<void>;
+}
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const CATALOG_VERSION_TTL_MS = 60 * 1000;
+// Each entry is one scan result, a few KB; unique label texts would otherwise grow the map
+// for the life of the process.
+const MEMORY_MAX_ENTRIES = 500;
+
+export const SCAN_CACHE_TTL_MS =
+  (Number(process.env.SCAN_CACHE_TTL_SECONDS) > 0
+    ? Number(process.env.SCAN_CACHE_TTL_SECONDS)
+    : DEFAULT_TTL_SECONDS) * 1000;
+
+function createMemoryStore(): ScanCacheStore {
+  const entries = new Map<string, ScanCacheEntry>();
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return null;
+      // Re-inserting keeps the Map in least-recently-used order.
+      entries.set(key, entry);
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      for (const oldest of entries.keys()) {
+        if (entries.size <= MEMORY_MAX_ENTRIES) break;
+        entries.delete(oldest);
+      }
+    }
+  };
+}
+
+function createFileStore(directory: string): ScanCacheStore {
+  const root = resolve(process.cwd(), directory);
+  return {
+    async get(key) {
+      const path = join(root, `${key}.json`);
+      if (!existsSync(path)) return null;
+      const entry = JSON.parse(readFileSync(path, "utf8")) as ScanCacheEntry;
+      if (entry.expiresAt <= Date.now()) {
+        rmSync(path, { force: true });
+        return null;
+      }
+      return entry;
+    },
+    async set(key, entry) {
+      mkdirSync(root, { recursive: true });
+      writeFileSync(join(root, `${key}.json`), JSON.stringify(entry));
+    }
+  };
+}
+
+function createFirestoreStore(): ScanCacheStore {
+  const collection = () => getFirestore().collection("scanCache");
+  return {
+    async get(key) {
+      const snapshot = await collection().doc(key).get();
+      if (!snapshot.exists) return null;
+      const entry = snapshot.data() as ScanCacheEntry;
+      if (!entry?.result || entry.expiresAt <= Date.now()) return null;
+      return entry;
+    },
+    async set(key, entry) {
+      // Firestore rejects undefined values anywhere in the document.
+      await collection()
+        .doc(key)
+        .set(JSON.parse(JSON.stringify(entry)));
+    }
+  };
+}
+
+let cachedStore: ScanCacheStore | null | undefined;
+
+/** Picks the store from SCAN_CACHE ("firestore", "file", "memory" or "off"). */
+export function getScanCacheStore(): ScanCacheStore | null {
+  if (cachedStore !== undefined) return cachedStore;
+
+  const configured = String(process.env.SCAN_CACHE || "")
+    .trim()
+    .toLowerCase();
+  const kind = configured || (isFirestoreConfigured() ? "firestore" : "memory");
+
+  if (kind === "off") {
+    cachedStore = null;
+  } else if (kind === "firestore") {
+    cachedStore = createFirestoreStore();
+  } else if (kind === "file") {
+    cachedStore = createFileStore(process.env.SCAN_CACHE_DIR || ".scan-cache");
+  } else {
+    cachedStore = createMemoryStore();
+  }
+
+  return cachedStore;
+}
+
+let cachedCatalogVersion: { version: string; expiresAt: number } | null = null;
+
+/**
+ * The catalog version is bumped by the seed script in `meta/catalog`, so editing catalog
+ * entries retires every cache key built against the old version.
+ */
+export async function getCatalogVersion(): Promise<string> {
+  if (!isFirestoreConfigured()) return "none";
+  if (cachedCatalogVersion && cachedCatalogVersion.expiresAt > Date.now()) {
+    return cachedCatalogVersion.version;
+  }
+
+  const snapshot = await getFirestore().collection("meta").doc("catalog").get();
+  const version = String(snapshot.data()?.version || "unversioned");
+  cachedCatalogVersion = { version, expiresAt: Date.now() + CATALOG_VERSION_TTL_MS };
+  return version;
+}
+
+export function normalizeLabelText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/\s*([,;:()])\s*/g, "$1")
+    .replace(/[.\s]+$/, "")
+    .trim();
+}
+
+export function buildScanCacheKey(input: {
+  text: string;
+  catalogVersion: string;
+  promptVersion: string;
+  provider: string;
+}): string {
+  return createHash("sha256")
+    .update(
+      [input.provider, input.promptVersion, input.catalogVersion, normalizeLabelText(input.text)].join(
+        "\n"
+      )
+    )
+    .digest("hex");
+}
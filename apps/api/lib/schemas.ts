@@ -0,0 +1,115 @@
+/**
+ * Minimal JSON Schema subset shared by every model call. The same declaration is sent to the
+ * provider as its structured-output schema and used to validate what comes back.
+ */
+export type JsonSchema =
+  | { type: "string"; enum?: string[]; description?: string }
+  | { type: "number"; description?: string }
+  | { type: "boolean"; description?: string }
+  | { type: "array"; items: JsonSchema; description?: string }
+  | {
+      type: "object";
+      properties: Record<string, JsonSchema>;
+      required: string[];
+      description?: string;
+    };
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export const SCAN_OUTPUT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    ingredients: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          risk: { type: "string", enum: ["safe", "caution", "avoid"] },
+          notes: { type: "string" },
+          concentration: {
+            type: "string",
+            description: "Amount printed on the label, e.g. 5-15% or <1%"
+          }
+        },
+        required: ["name", "risk"]
+      }
+    },
+    summary: { type: "string" }
+  },
+  required: ["ingredients", "summary"]
+};
+
+export const CHAT_OUTPUT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    answer: { type: "string" },
+    sourceTitles: { type: "array", items: { type: "string" } }
+  },
+  required: ["answer"]
+};
+
+export function validateSchema(value: unknown, schema: JsonSchema, path = "$"): SchemaIssue[] {
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return [{ path, message: "expected string" }];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ path, message: `expected one of ${schema.enum.join(", ")}` }];
+      }
+      return [];
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+        ? []
+        : [{ path, message: "expected number" }];
+    case "boolean":
+      return typeof value === "boolean" ? [] : [{ path, message: "expected boolean" }];
+    case "array":
+      if (!Array.isArray(value)) return [{ path, message: "expected array" }];
+      return value.flatMap((item, index) => validateSchema(item, schema.items, `${path}[${index}]`));
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return [{ path, message: "expected object" }];
+      }
+      const record = value as Record<string, unknown>;
+      const issues: SchemaIssue[] = [];
+      for (const key of schema.required) {
+        if (record[key] === undefined || record[key] === null) {
+          issues.push({ path: `${path}.${key}`, message: "is required" });
+        }
+      }
+      for (const [key, child] of Object.entries(schema.properties)) {
+        if (record[key] === undefined || record[key] === null) continue;
+        issues.push(...validateSchema(record[key], child, `${path}.${key}`));
+      }
+      return issues;
+    }
+  }
+}
+
+/** Converts to Gemini's OpenAPI-style `responseSchema` (upper-case types, no extra keywords). */
+export function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  const base = {
+    type: schema.type.toUpperCase(),
+    ...(schema.description ? { description: schema.description } : {})
+  };
+
+  switch (schema.type) {
+    case "string":
+      return { ...base, ...(schema.enum ? { format: "enum", enum: schema.enum } : {}) };
+    case "array":
+      return { ...base, items: toGeminiSchema(schema.items) };
+    case "object":
+      return {
+        ...base,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, child]) => [key, toGeminiSchema(child)])
+        ),
+        required: schema.required
+      };
+    default:
+      return base;
+  }
+}
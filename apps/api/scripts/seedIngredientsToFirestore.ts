@@ -103,6 +103,10 @@ async function run(): Promise<void> {
     count += 1;
   }
 
+  // Retires cached scan results that were enriched from the previous catalog.
+  const version = new Date().toISOString();
+  await db.collection("meta").doc("catalog").set({ version, updated_at: version }, { merge: true });
+
   // eslint-disable-next-line no-console
   console.log(`Seeded ${count} ingredients.`);
 }
@@ -15,37 +15,97 @@ import {
   View
 } from "react-native";
 import { StatusBar } from "expo-status-bar";
-import { CameraView, useCameraPermissions } from "expo-camera";
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from "expo-camera";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as ImageManipulator from "expo-image-manipulator";
 
-import { RISK_LABELS, ScanResult, slugify } from "@what-we-use/shared";
+import {
+  AlternativesResult,
+  ChatMessage,
+  GHS_PICTOGRAM_LABELS,
+  PRODUCT_CATEGORY_LABELS,
+  PROVENANCE_LABELS,
+  ProductCategory,
+  ProductComparison,
+  RISK_LABELS,
+  SENSITIVITY_LABELS,
+  SENSITIVITY_PROFILES,
+  ScanResult,
+  SensitivityProfile,
+  findInteractions,
+  normalizeBarcode,
+  parseGhsHazards,
+  parseIngredientLabel,
+  readSensitivityProfiles,
+  slugify
+} from "@what-we-use/shared";
 
-import { askAboutScan, scanFromText } from "./src/api";
+import {
+  IngredientSuggestion,
+  askAboutScan,
+  compareProducts,
+  findAlternatives,
+  lookupProduct,
+  saveProduct,
+  scanFromText,
+  searchIngredients
+} from "./src/api";
 import { API_BASE_URL } from "./src/config";
 import { runOcr } from "./src/services/ocr";
 
 const MIN_OCR_LENGTH = 120;
 const MIN_OCR_CONFIDENCE = 0.45;
+const MIN_OCR_ITEMS = 5;
 const OCR_KEYWORD_REGEX = /\b(ingredients|contains|composition)\b/i;
 const WARNING_REGEX = /(warning|caution|danger|keep out of reach|first aid|poison|harmful)/i;
 
 const HISTORY_STORAGE_KEY = "scan_history_v1";
+const PROFILE_STORAGE_KEY = "sensitivity_profile_v1";
 const MAX_HISTORY = 20;
+// The compare API takes at most six products.
+const MAX_COMPARE = 6;
+const MIN_SUGGEST_LENGTH = 3;
+const MAX_SUGGESTIONS = 5;
+const SUGGEST_DELAY_MS = 250;
 const THUMBNAIL_WIDTH = 480;
 
+type ScanMode = "camera" | "barcode" | "text";
+
+// UPC-E is left out: its short form would need expanding before the GTIN check digit works.
+const BARCODE_TYPES: Array<"ean13" | "ean8" | "upc_a"> = ["ean13", "ean8", "upc_a"];
+
 type HistoryEntry = {
   id: string;
   createdAt: number;
-  mode: "camera" | "text";
+  mode: ScanMode;
   result: ScanResult;
   thumbnails?: {
     front?: string;
     back?: string;
   };
   rawText?: string;
+  productName?: string;
+  /** 14-digit GTIN of the scanned product. */
+  barcode?: string;
 };
 
+function historyLabel(entry: HistoryEntry): string {
+  if (entry.productName) return entry.productName;
+  const summary = entry.result.summary || "";
+  if (!summary) return "an earlier scan";
+  return summary.length > 40 ? `${summary.slice(0, 40)}...` : summary;
+}
+
+/** Products in `others` that are dangerous to mix with `entry`'s product. */
+function findMixWarnings(entry: Pick<HistoryEntry, "result">, others: HistoryEntry[]) {
+  return findInteractions(
+    entry.result.ingredients,
+    others
+      .filter((other) => other.result !== entry.result)
+      .map((other) => ({ label: historyLabel(other), ingredients: other.result.ingredients }))
+  ).filter((warning) => warning.otherProduct);
+}
+
 type OcrEvaluation = {
   ok: boolean;
   message: string;
@@ -74,13 +134,10 @@ function evaluateOcrText(text: string, confidence?: number | null): OcrEvaluatio
     };
   }
 
-  const commaCount = (cleaned.match(/,/g) || []).length;
-  const semicolonCount = (cleaned.match(/;/g) || []).length;
-  const lineCount = cleaned.split("\n").filter((line) => line.trim()).length;
-  const listDensity = ((commaCount + semicolonCount) / Math.max(1, cleaned.length)) * 100;
+  const itemCount = parseIngredientLabel(cleaned).ingredients.length;
   const hasKeyword = OCR_KEYWORD_REGEX.test(cleaned);
 
-  if (!hasKeyword && listDensity < 1.2 && lineCount < 6) {
+  if (!hasKeyword && itemCount < MIN_OCR_ITEMS) {
     return {
       ok: false,
       message: "We couldn't find an ingredients list. Make sure the ingredients panel fills the frame."
@@ -115,7 +172,7 @@ function extractWarnings(text: string): string[] {
   return text
     .split("\n")
     .map((line) => line.trim())
-    .filter((line) => line && WARNING_REGEX.test(line));
+    .filter((line) => line && (WARNING_REGEX.test(line) || parseGhsHazards(line) !== null));
 }
 
 function buildAnalysisText(input: { productName: string; ingredientText: string }): string {
@@ -160,18 +217,34 @@ function toFriendlyErrorMessage(error: unknown): string {
 
 export default function App(): JSX.Element {
   const [text, setText] = useState("");
-  const [mode, setMode] = useState<"text" | "camera">("camera");
+  const [mode, setMode] = useState<ScanMode>("camera");
+  const [barcode, setBarcode] = useState<string | null>(null);
+  const [lookingUp, setLookingUp] = useState(false);
+  const lastBarcodeRef = useRef<string | null>(null);
+  // Barcode of an unknown product being photographed; only the next camera analysis is saved
+  // under it, so a later scan can't overwrite the shared product record.
+  const pendingBarcodeRef = useRef<string | null>(null);
+  const [alternatives, setAlternatives] = useState<AlternativesResult | null>(null);
   const [status, setStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [result, setResult] = useState<ScanResult | null>(null);
   const [question, setQuestion] = useState("");
-  const [answer, setAnswer] = useState<string | null>(null);
-  const [answerSources, setAnswerSources] = useState<Array<{ title?: string; url?: string }>>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [pendingAnswer, setPendingAnswer] = useState<string | null>(null);
   const [chatError, setChatError] = useState<string | null>(null);
   const [asking, setAsking] = useState(false);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [sensitivities, setSensitivities] = useState<SensitivityProfile[]>([]);
+  const [profileLoaded, setProfileLoaded] = useState(false);
+  const [showProfile, setShowProfile] = useState(false);
+  // null outside compare mode; otherwise the history entries picked, in tap order.
+  const [compareIds, setCompareIds] = useState<string[] | null>(null);
+  const [comparison, setComparison] = useState<ProductComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<IngredientSuggestion[]>([]);
 
   const [permission, requestPermission] = useCameraPermissions();
   const cameraRef = useRef<CameraView | null>(null);
@@ -185,6 +258,7 @@ export default function App(): JSX.Element {
   const [torchOn, setTorchOn] = useState(false);
 
   const [productName, setProductName] = useState("");
+  const [productCategory, setProductCategory] = useState<ProductCategory | null>(null);
 
   const [ocrText, setOcrText] = useState("");
   const [ocrConfidence, setOcrConfidence] = useState<number | null>(null);
@@ -210,6 +284,27 @@ export default function App(): JSX.Element {
     [asking, question, result]
   );
 
+  const ocrIngredients = useMemo(
+    () => parseIngredientLabel(ocrText).ingredients.map((item) => item.name),
+    [ocrText]
+  );
+
+  // Same-product warnings come from the API; pairs with earlier scans are checked on device.
+  const mixWarnings = useMemo(
+    () => (result ? [...(result.interactions || []), ...findMixWarnings({ result }, history)] : []),
+    [history, result]
+  );
+  const historyMixes = useMemo(
+    () =>
+      new Map(
+        history.map((entry) => [
+          entry.id,
+          Array.from(new Set(findMixWarnings(entry, history).map((item) => item.otherProduct)))
+        ])
+      ),
+    [history]
+  );
+
   const ocrPreview = useMemo(() => {
     if (!ocrText) return "";
     const trimmed = ocrText.slice(0, 500);
@@ -243,17 +338,180 @@ export default function App(): JSX.Element {
     });
   }, [history, historyLoaded]);
 
+  // Autocomplete the ingredient being typed: the text after the last comma or line break.
+  const typedIngredient = useMemo(() => text.split(/[,\n]/).pop()?.trim() || "", [text]);
+
+  useEffect(() => {
+    setSuggestions([]);
+    if (mode !== "text" || typedIngredient.length < MIN_SUGGEST_LENGTH) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchIngredients({ q: typedIngredient, limit: MAX_SUGGESTIONS })
+        .then((page) => {
+          if (!cancelled) setSuggestions(page.items);
+        })
+        .catch(() => {
+          // Typing works without suggestions.
+        });
+    }, SUGGEST_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mode, typedIngredient]);
+
+  useEffect(() => {
+    setAlternatives(null);
+    if (!result || result.overallRisk === "safe") return;
+
+    let cancelled = false;
+    findAlternatives({ scan: result, ...(barcode ? { barcode } : {}) })
+      .then((found) => {
+        if (!cancelled) setAlternatives(found);
+      })
+      .catch(() => {
+        // Suggestions are optional; the result card works without them.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [result, barcode]);
+
+  useEffect(() => {
+    AsyncStorage.getItem(PROFILE_STORAGE_KEY)
+      .then((raw) => {
+        if (raw) setSensitivities(readSensitivityProfiles(JSON.parse(raw)));
+      })
+      .catch(() => {
+        // Ignore profile load errors; scans just aren't personalized.
+      })
+      .finally(() => setProfileLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!profileLoaded) return;
+    AsyncStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(sensitivities)).catch(() => {
+      // Ignore profile persistence errors.
+    });
+  }, [sensitivities, profileLoaded]);
+
+  function applySuggestion(name: string): void {
+    setText((current) => {
+      const head = current.replace(/[^,\n]*$/, "");
+      return `${head}${head && !head.endsWith("\n") ? " " : ""}${name}, `;
+    });
+  }
+
+  function toggleCompareMode(): void {
+    setCompareIds((current) => (current ? null : []));
+    setComparison(null);
+    setCompareError(null);
+  }
+
+  function toggleCompareEntry(id: string): void {
+    setCompareIds((current) => {
+      if (!current) return current;
+      if (current.includes(id)) return current.filter((item) => item !== id);
+      return current.length < MAX_COMPARE ? [...current, id] : current;
+    });
+  }
+
+  async function onCompare(): Promise<void> {
+    const entries = (compareIds || [])
+      .map((id) => history.find((entry) => entry.id === id))
+      .filter((entry): entry is HistoryEntry => Boolean(entry));
+    if (entries.length < 2) return;
+
+    setComparing(true);
+    setCompareError(null);
+    try {
+      setComparison(
+        await compareProducts(
+          entries.map((entry) => ({ label: historyLabel(entry), scan: entry.result }))
+        )
+      );
+    } catch (compareError) {
+      setCompareError(
+        compareError instanceof Error ? compareError.message : "Comparing products failed."
+      );
+    } finally {
+      setComparing(false);
+    }
+  }
+
+  function toggleSensitivity(profile: SensitivityProfile): void {
+    setSensitivities((current) =>
+      current.includes(profile)
+        ? current.filter((item) => item !== profile)
+        : SENSITIVITY_PROFILES.filter((item) => item === profile || current.includes(item))
+    );
+  }
+
+  /**
+   * Known products show their stored analysis right away. Unknown ones go to the photo flow
+   * with the barcode kept, so the analysis is saved to the product afterwards.
+   */
+  async function onBarcodeScanned(scan: BarcodeScanningResult): Promise<void> {
+    const gtin = normalizeBarcode(scan.data);
+    if (!gtin || lookingUp || gtin === lastBarcodeRef.current) return;
+    lastBarcodeRef.current = gtin;
+    pendingBarcodeRef.current = null;
+
+    try {
+      setLookingUp(true);
+      setError(null);
+      setStatus("Looking up product...");
+      setResult(null);
+      setQuestion("");
+      setMessages([]);
+      setPendingAnswer(null);
+      setChatError(null);
+      clearCaptureState();
+      setBarcode(gtin);
+
+      const product = await lookupProduct(gtin, sensitivities);
+      if (product?.lastResult) {
+        setResult(product.lastResult);
+        setProductName(product.name);
+        addToHistory({
+          id: String(Date.now()),
+          createdAt: Date.now(),
+          mode: "barcode",
+          result: product.lastResult,
+          productName: product.name,
+          barcode: gtin
+        });
+        setStatus(null);
+        return;
+      }
+
+      if (product?.name) setProductName(product.name);
+      pendingBarcodeRef.current = gtin;
+      setMode("camera");
+      setStatus("New product. Photograph the ingredients panel to analyze it.");
+    } catch (lookupError) {
+      lastBarcodeRef.current = null;
+      setStatus(null);
+      setError(toFriendlyErrorMessage(lookupError));
+    } finally {
+      setLookingUp(false);
+    }
+  }
+
   async function onScan(): Promise<void> {
     try {
       setIsAnalyzing(true);
       setError(null);
       setStatus("Analyzing text...");
       setResult(null);
+      setBarcode(null);
+      pendingBarcodeRef.current = null;
       setQuestion("");
-      setAnswer(null);
-      setAnswerSources([]);
+      setMessages([]);
+      setPendingAnswer(null);
       setChatError(null);
-      const payload = await scanFromText(text.trim());
+      const payload = await scanFromText(text.trim(), sensitivities);
       setResult(payload);
       addToHistory({
         id: String(Date.now()),
@@ -317,6 +575,8 @@ export default function App(): JSX.Element {
 
   async function takePhoto(kind: "front" | "back"): Promise<void> {
     if (!cameraRef.current || isBusy) return;
+    // Photos that don't follow a barcode scan belong to a different product.
+    if (!pendingBarcodeRef.current) setBarcode(null);
 
     try {
       const photo = await cameraRef.current.takePictureAsync({
@@ -356,8 +616,8 @@ export default function App(): JSX.Element {
       setStatus("Analyzing ingredients...");
       setResult(null);
       setQuestion("");
-      setAnswer(null);
-      setAnswerSources([]);
+      setMessages([]);
+      setPendingAnswer(null);
       setChatError(null);
 
       const analysisText = buildAnalysisText({
@@ -365,18 +625,36 @@ export default function App(): JSX.Element {
         ingredientText: ocrText
       });
 
-      const payload = await scanFromText(analysisText);
+      const payload = await scanFromText(analysisText, sensitivities);
       setResult(payload);
       addToHistory({
         id: String(Date.now()),
         createdAt: Date.now(),
         mode: "camera",
         result: payload,
+        ...(productName.trim() ? { productName: productName.trim() } : {}),
+        ...(barcode ? { barcode } : {}),
         thumbnails: {
           ...(frontThumbUri ? { front: frontThumbUri } : {}),
           ...(backThumbUri ? { back: backThumbUri } : {})
         }
       });
+      const pendingBarcode = pendingBarcodeRef.current;
+      pendingBarcodeRef.current = null;
+      if (pendingBarcode) {
+        // The next scan of this barcode skips the photos; a failed save only costs that, so the
+        // result stays on screen and the failure is noted in the status line.
+        saveProduct({
+          barcode: pendingBarcode,
+          name: productName.trim() || "Unnamed product",
+          labelText: analysisText,
+          ...(productCategory ? { category: productCategory } : {})
+        }).catch((saveError) => {
+          setStatus(
+            `Couldn't save this product for the next barcode scan: ${toFriendlyErrorMessage(saveError)}`
+          );
+        });
+      }
     } catch (scanError) {
       setError(toFriendlyErrorMessage(scanError));
     } finally {
@@ -387,21 +665,29 @@ export default function App(): JSX.Element {
 
   async function onAsk(): Promise<void> {
     if (!result) return;
+    const asked: ChatMessage = { role: "user", content: question.trim() };
+    const earlier = messages;
     try {
       setAsking(true);
       setChatError(null);
-      setAnswer(null);
-      setAnswerSources([]);
+      setMessages([...earlier, asked]);
       const response = await askAboutScan({
-        question: question.trim(),
-        scan: result
+        question: asked.content,
+        scan: result,
+        messages: earlier,
+        onAnswerText: setPendingAnswer
       });
-      setAnswer(response.answer);
-      setAnswerSources(response.sources || []);
+      setMessages([
+        ...earlier,
+        asked,
+        { role: "assistant", content: response.answer, sources: response.sources }
+      ]);
       setQuestion("");
     } catch (chatError) {
+      setMessages(earlier);
       setChatError(chatError instanceof Error ? chatError.message : "Question failed.");
     } finally {
+      setPendingAnswer(null);
       setAsking(false);
     }
   }
@@ -413,13 +699,16 @@ export default function App(): JSX.Element {
   function loadHistory(entry: HistoryEntry): void {
     setResult(entry.result);
     setQuestion("");
-    setAnswer(null);
-    setAnswerSources([]);
+    setMessages([]);
+    setPendingAnswer(null);
     setChatError(null);
     setStatus(null);
     setError(null);
     clearCaptureState();
     setMode(entry.mode);
+    setBarcode(entry.barcode || null);
+    lastBarcodeRef.current = entry.barcode || null;
+    pendingBarcodeRef.current = null;
     setText(entry.mode === "text" ? entry.rawText || "" : "");
   }
 
@@ -429,6 +718,7 @@ export default function App(): JSX.Element {
     setFrontThumbUri(null);
     setBackThumbUri(null);
     setProductName("");
+    setProductCategory(null);
     setOcrText("");
     setOcrConfidence(null);
     setOcrStatus("idle");
@@ -439,11 +729,14 @@ export default function App(): JSX.Element {
 
   function resetScan(): void {
     setMode("camera");
+    setBarcode(null);
+    lastBarcodeRef.current = null;
+    pendingBarcodeRef.current = null;
     setText("");
     setStatus(null);
     setQuestion("");
-    setAnswer(null);
-    setAnswerSources([]);
+    setMessages([]);
+    setPendingAnswer(null);
     setChatError(null);
     setResult(null);
     setError(null);
@@ -513,12 +806,85 @@ export default function App(): JSX.Element {
           >
             <Text style={[styles.chipText, mode === "text" && styles.chipTextActive]}>Text</Text>
           </Pressable>
+          <Pressable
+            style={[styles.chip, mode === "barcode" && styles.chipActive]}
+            onPress={() => setMode("barcode")}
+          >
+            <Text style={[styles.chipText, mode === "barcode" && styles.chipTextActive]}>
+              Barcode
+            </Text>
+          </Pressable>
           <Pressable style={styles.outlineButton} onPress={resetScan}>
             <Text style={styles.outlineButtonText}>New Scan</Text>
           </Pressable>
+          <Pressable
+            style={[styles.chip, showProfile && styles.chipActive]}
+            onPress={() => setShowProfile((current) => !current)}
+          >
+            <Text style={[styles.chipText, showProfile && styles.chipTextActive]}>
+              Profile{sensitivities.length ? ` (${sensitivities.length})` : ""}
+            </Text>
+          </Pressable>
         </View>
 
-        {mode === "camera" ? (
+        {showProfile ? (
+          <View style={styles.cameraCard}>
+            <Text style={styles.sectionTitle}>Your sensitivities</Text>
+            <Text style={styles.sectionNote}>
+              Saved on this device and sent with each scan. Ingredients flagged for what you pick
+              are rated one level higher.
+            </Text>
+            <View style={styles.modeRow}>
+              {SENSITIVITY_PROFILES.map((profile) => {
+                const active = sensitivities.includes(profile);
+                return (
+                  <Pressable
+                    key={profile}
+                    style={[styles.chip, active && styles.chipActive]}
+                    onPress={() => toggleSensitivity(profile)}
+                  >
+                    <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                      {SENSITIVITY_LABELS[profile]}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <Pressable style={styles.outlineButton} onPress={() => setShowProfile(false)}>
+              <Text style={styles.outlineButtonText}>Done</Text>
+            </Pressable>
+          </View>
+        ) : null}
+
+        {mode === "barcode" ? (
+          <View style={styles.cameraCard}>
+            {!permission?.granted ? (
+              <Pressable style={styles.button} onPress={requestPermission}>
+                <Text style={styles.buttonText}>Enable Camera</Text>
+              </Pressable>
+            ) : (
+              <>
+                <Text style={styles.sectionTitle}>Scan a barcode</Text>
+                <Text style={styles.sectionNote}>
+                  Point the camera at the EAN or UPC code. Products we already know open right
+                  away; new ones ask for a photo of the label.
+                </Text>
+                <View style={styles.cameraShell}>
+                  <CameraView
+                    style={styles.cameraView}
+                    facing="back"
+                    enableTorch={torchOn}
+                    barcodeScannerSettings={{ barcodeTypes: BARCODE_TYPES }}
+                    onBarcodeScanned={lookingUp ? undefined : onBarcodeScanned}
+                  />
+                </View>
+                {lookingUp ? <ActivityIndicator color="#2563eb" /> : null}
+                {barcode ? <Text style={styles.sectionNote}>Barcode {barcode}</Text> : null}
+                {status ? <Text style={styles.loadingText}>{status}</Text> : null}
+              </>
+            )}
+          </View>
+        ) : mode === "camera" ? (
           <View style={styles.cameraCard}>
             {!permission?.granted ? (
               <Pressable style={styles.button} onPress={requestPermission}>
@@ -528,6 +894,37 @@ export default function App(): JSX.Element {
               <>
                 <Text style={styles.sectionTitle}>Capture labels</Text>
                 <Text style={styles.sectionNote}>Back ingredients panel required. Front is optional.</Text>
+                {barcode && !result ? (
+                  <>
+                    <Text style={styles.sectionNote}>
+                      What kind of product is it? Safer options are found among the same type.
+                    </Text>
+                    <View style={styles.modeRow}>
+                      {(Object.keys(PRODUCT_CATEGORY_LABELS) as ProductCategory[]).map(
+                        (category) => (
+                          <Pressable
+                            key={category}
+                            style={[styles.chip, productCategory === category && styles.chipActive]}
+                            onPress={() =>
+                              setProductCategory((current) =>
+                                current === category ? null : category
+                              )
+                            }
+                          >
+                            <Text
+                              style={[
+                                styles.chipText,
+                                productCategory === category && styles.chipTextActive
+                              ]}
+                            >
+                              {PRODUCT_CATEGORY_LABELS[category]}
+                            </Text>
+                          </Pressable>
+                        )
+                      )}
+                    </View>
+                  </>
+                ) : null}
 
                 <View style={styles.guidanceCard}>
                   <Text style={styles.guidanceTitle}>Capture tips</Text>
@@ -654,6 +1051,13 @@ export default function App(): JSX.Element {
                     {ocrStatus === "ready" ? (
                       <>
                         <Text style={styles.ocrPreview}>{ocrPreview || "(No text detected)"}</Text>
+                        {ocrIngredients.length ? (
+                          <Text style={styles.ocrMessage}>
+                            {ocrIngredients.length} ingredient(s) found:{" "}
+                            {ocrIngredients.slice(0, 8).join(", ")}
+                            {ocrIngredients.length > 8 ? ", ..." : ""}
+                          </Text>
+                        ) : null}
                         <Text style={styles.ocrMessage}>{ocrEvaluation.message}</Text>
                         {ocrAccepted ? (
                           <Text style={styles.success}>OCR approved. Ready to analyze.</Text>
@@ -712,6 +1116,22 @@ export default function App(): JSX.Element {
               autoCapitalize="none"
               autoCorrect={false}
             />
+            {suggestions.length ? (
+              <View style={styles.modeRow}>
+                {suggestions.map((suggestion) => (
+                  <Pressable
+                    key={suggestion.slug}
+                    style={styles.chip}
+                    onPress={() => applySuggestion(suggestion.name)}
+                  >
+                    <Text style={styles.chipText}>
+                      {suggestion.name} · {RISK_LABELS[suggestion.risk]}
+                      {suggestion.matchedAlias ? ` (${suggestion.matchedAlias})` : ""}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            ) : null}
 
             <Pressable
               style={[styles.button, !canScan && styles.buttonDisabled]}
@@ -734,13 +1154,154 @@ export default function App(): JSX.Element {
             <Text style={styles.resultTitle}>
               Overall Risk: {RISK_LABELS[result.overallRisk] || result.overallRisk}
             </Text>
+            {barcode ? (
+              <Text style={styles.aliasNote}>
+                {productName.trim() ? `${productName.trim()} · ` : ""}Barcode {barcode}
+              </Text>
+            ) : null}
+            {result.score ? (
+              <View style={styles.scoreBlock}>
+                <Text style={styles.scoreValue}>Score: {result.score.score}/100</Text>
+                {result.score.factors.map((factor) => (
+                  <Text key={factor.key} style={styles.aliasNote}>
+                    {factor.points > 0 ? `+${factor.points}` : factor.points} · {factor.detail}
+                  </Text>
+                ))}
+              </View>
+            ) : null}
             <Text style={styles.summary}>{result.summary}</Text>
+            {result.sensitivities && result.sensitivities.length ? (
+              <Text style={styles.aliasNote}>
+                Personalized for:{" "}
+                {result.sensitivities.map((profile) => SENSITIVITY_LABELS[profile]).join(", ")}
+              </Text>
+            ) : null}
+            {mixWarnings.length ? (
+              <View style={styles.hazardBlock}>
+                <Text style={styles.hazardTitle}>Never mix</Text>
+                {mixWarnings.map((warning) => (
+                  <Text
+                    key={`${warning.rule}-${warning.otherProduct || ""}`}
+                    style={styles.hazardText}
+                  >
+                    {warning.otherProduct
+                      ? `With ${warning.otherProduct} (${warning.ingredients[1]}): `
+                      : `${warning.ingredients[0]} + ${warning.ingredients[1]} in this product: `}
+                    {warning.message}
+                  </Text>
+                ))}
+              </View>
+            ) : null}
+            {alternatives &&
+            (alternatives.products.length || alternatives.ingredients.length) ? (
+              <View style={styles.saferBlock}>
+                <Text style={styles.saferTitle}>Safer options</Text>
+                {alternatives.products.map((product) => (
+                  <View key={product.gtin}>
+                    <Text style={styles.ingredientName}>
+                      {product.brand ? `${product.brand} ` : ""}
+                      {product.name} · {RISK_LABELS[product.overallRisk]}
+                      {product.score !== undefined ? ` (${product.score}/100)` : ""}
+                    </Text>
+                    <Text style={styles.aliasNote}>{product.reason}</Text>
+                  </View>
+                ))}
+                {alternatives.ingredients.map((substitute) => (
+                  <View key={`${substitute.replaces}-${substitute.slug}`}>
+                    <Text style={styles.ingredientName}>
+                      {substitute.name} instead of {substitute.replaces}
+                    </Text>
+                    <Text style={styles.aliasNote}>{substitute.reason}</Text>
+                  </View>
+                ))}
+              </View>
+            ) : null}
+            {result.usedFallback ? (
+              <Text style={styles.fallbackBanner}>
+                Some ratings below are unverified guesses, not catalog or AI data. Treat them as
+                "check this yourself".
+              </Text>
+            ) : null}
+            {result.hazards ? (
+              <View style={styles.hazardBlock}>
+                <Text style={styles.hazardTitle}>
+                  {result.hazards.signalWord
+                    ? result.hazards.signalWord.toUpperCase()
+                    : "Hazard statements"}
+                  {result.hazards.pictograms.length
+                    ? ` · ${result.hazards.pictograms
+                        .map((pictogram) => GHS_PICTOGRAM_LABELS[pictogram])
+                        .join(", ")}`
+                    : ""}
+                </Text>
+                {result.hazards.hazardStatements.map((statement) => (
+                  <Text key={statement.code} style={styles.hazardText}>
+                    {statement.code}: {statement.text || statement.matched}
+                  </Text>
+                ))}
+                {result.hazards.precautionaryStatements.map((statement) => (
+                  <Text key={statement.code} style={styles.aliasNote}>
+                    {statement.code}: {statement.text || statement.matched}
+                  </Text>
+                ))}
+              </View>
+            ) : null}
             {result.ingredients.map((ingredient) => (
-              <View key={`${slugify(ingredient.name)}-${ingredient.risk}`} style={styles.ingredientRow}>
+              <View
+                key={`${slugify(ingredient.name)}-${ingredient.risk}`}
+                style={[
+                  styles.ingredientRow,
+                  ingredient.provenance === "fallback" && styles.ingredientRowGuess
+                ]}
+              >
                 <Text style={styles.ingredientName}>{ingredient.name}</Text>
+                {ingredient.provenance ? (
+                  <Text
+                    style={[
+                      styles.provenanceNote,
+                      ingredient.provenance === "catalog" && styles.provenanceCatalog
+                    ]}
+                  >
+                    {PROVENANCE_LABELS[ingredient.provenance]}
+                    {ingredient.confidence !== undefined
+                      ? ` · ${Math.round(ingredient.confidence * 100)}% confidence`
+                      : ""}
+                  </Text>
+                ) : null}
+                {ingredient.matchedAlias ? (
+                  <Text style={styles.aliasNote}>Matched from "{ingredient.matchedAlias}"</Text>
+                ) : null}
+                {ingredient.matchScore !== undefined && ingredient.matchScore < 1 ? (
+                  <Text style={styles.aliasNote}>
+                    Closest catalog match ({Math.round(ingredient.matchScore * 100)}% similar)
+                  </Text>
+                ) : null}
+                {ingredient.suggestedMatch ? (
+                  <Text style={styles.reviewNote}>
+                    Possibly {ingredient.suggestedMatch.name} (
+                    {Math.round(ingredient.suggestedMatch.score * 100)}% similar). Check the label.
+                  </Text>
+                ) : null}
                 <Text style={styles.ingredientRisk}>
                   {RISK_LABELS[ingredient.risk] || ingredient.risk}
+                  {ingredient.concentration ? ` · ${ingredient.concentration.label}` : ""}
                 </Text>
+                {ingredient.baseRisk ? (
+                  <Text style={styles.aliasNote}>
+                    Rated {RISK_LABELS[ingredient.baseRisk]} on its own; adjusted for the amount
+                    in this product.
+                  </Text>
+                ) : null}
+                {ingredient.sensitivityMatches && ingredient.sensitivityMatches.length ? (
+                  <Text style={styles.reviewNote}>
+                    {ingredient.generalRisk
+                      ? `Raised from ${RISK_LABELS[ingredient.generalRisk]} for you: `
+                      : "Concerns your profile: "}
+                    {ingredient.sensitivityMatches
+                      .map((match) => `${match.reason} (${SENSITIVITY_LABELS[match.profile]})`)
+                      .join("; ")}
+                  </Text>
+                ) : null}
                 {ingredient.notes ? <Text style={styles.notes}>{ingredient.notes}</Text> : null}
                 {ingredient.regulatoryNotes ? (
                   <Text style={styles.notes}>Regulatory: {ingredient.regulatoryNotes}</Text>
@@ -773,12 +1334,56 @@ export default function App(): JSX.Element {
         {result ? (
           <View style={styles.chatCard}>
             <Text style={styles.chatTitle}>Ask About This Product</Text>
+            {messages.length ? (
+              <View style={styles.transcript}>
+                {messages.map((message, messageIndex) =>
+                  message.role === "user" ? (
+                    <Text key={`user-${messageIndex}`} style={styles.questionText}>
+                      {message.content}
+                    </Text>
+                  ) : (
+                    <View key={`assistant-${messageIndex}`} style={styles.answerBlock}>
+                      <Text style={styles.answerText}>{message.content}</Text>
+                      {message.sources?.length ? (
+                        <View style={styles.sourcesBlock}>
+                          <Text style={styles.sourcesLabel}>Sources</Text>
+                          {message.sources.map((source, index) => {
+                            const label = source.title || source.url || `Source ${index + 1}`;
+                            return (
+                              <Pressable
+                                key={`${label}-${index}`}
+                                onPress={() => {
+                                  if (source.url) {
+                                    Linking.openURL(source.url);
+                                  }
+                                }}
+                              >
+                                <Text style={styles.sourceLink}>{label}</Text>
+                              </Pressable>
+                            );
+                          })}
+                        </View>
+                      ) : null}
+                    </View>
+                  )
+                )}
+                {pendingAnswer ? (
+                  <View style={styles.answerBlock}>
+                    <Text style={styles.answerText}>{pendingAnswer}</Text>
+                  </View>
+                ) : null}
+              </View>
+            ) : null}
             <TextInput
               multiline
               value={question}
               onChangeText={setQuestion}
               style={styles.chatInput}
-              placeholder="Ask about ingredients, risks, or alternatives"
+              placeholder={
+                messages.length
+                  ? "Ask a follow-up question"
+                  : "Ask about ingredients, risks, or alternatives"
+              }
               autoCapitalize="sentences"
             />
             <Pressable
@@ -796,65 +1401,109 @@ export default function App(): JSX.Element {
               )}
             </Pressable>
             {chatError ? <Text style={styles.error}>{chatError}</Text> : null}
-            {answer ? (
-              <View style={styles.answerBlock}>
-                <Text style={styles.answerText}>{answer}</Text>
-                {answerSources.length ? (
-                  <View style={styles.sourcesBlock}>
-                    <Text style={styles.sourcesLabel}>Sources</Text>
-                    {answerSources.map((source, index) => {
-                      const label = source.title || source.url || `Source ${index + 1}`;
-                      return (
-                        <Pressable
-                          key={`${label}-${index}`}
-                          onPress={() => {
-                            if (source.url) {
-                              Linking.openURL(source.url);
-                            }
-                          }}
-                        >
-                          <Text style={styles.sourceLink}>{label}</Text>
-                        </Pressable>
-                      );
-                    })}
-                  </View>
-                ) : null}
-              </View>
-            ) : null}
           </View>
         ) : null}
 
         <View style={styles.historyCard}>
-          <Text style={styles.historyTitle}>Recent Scans</Text>
+          <View style={styles.historyHeader}>
+            <Text style={styles.historyTitle}>Recent Scans</Text>
+            {history.length > 1 ? (
+              <Pressable style={styles.outlineButton} onPress={toggleCompareMode}>
+                <Text style={styles.outlineButtonText}>{compareIds ? "Done" : "Compare"}</Text>
+              </Pressable>
+            ) : null}
+          </View>
+          {compareIds ? (
+            <View style={styles.compareBlock}>
+              <Text style={styles.aliasNote}>
+                Pick 2 to {MAX_COMPARE} scans, then compare them side by side.
+              </Text>
+              <Pressable
+                style={[
+                  styles.button,
+                  (compareIds.length < 2 || comparing) && styles.buttonDisabled
+                ]}
+                onPress={onCompare}
+                disabled={compareIds.length < 2 || comparing}
+              >
+                {comparing ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.buttonText}>Compare ({compareIds.length})</Text>
+                )}
+              </Pressable>
+              {compareError ? <Text style={styles.error}>{compareError}</Text> : null}
+              {comparison ? (
+                <View style={styles.compareBlock}>
+                  <Text style={styles.scoreValue}>{comparison.verdict}</Text>
+                  {comparison.products.map((product, index) => (
+                    <Text key={`${index}-${product.label}`} style={styles.ingredientName}>
+                      {`${index + 1}. ${product.label} · ${RISK_LABELS[product.overallRisk]}`}
+                      {` (${product.score}/100)`}
+                      {comparison.bestIndex === index ? " · least concerning" : ""}
+                    </Text>
+                  ))}
+                  {comparison.rows.map((row) => {
+                    const present = row.risks.flatMap((risk, index) => (risk ? [index + 1] : []));
+                    return (
+                      <View key={row.slug} style={styles.compareRow}>
+                        <Text style={styles.ingredientName}>{row.name}</Text>
+                        <Text style={styles.aliasNote}>
+                          {row.risks
+                            .map(
+                              (risk, index) =>
+                                `${index + 1}: ${risk ? RISK_LABELS[risk] : "not listed"}`
+                            )
+                            .join(" · ")}
+                        </Text>
+                        <Text style={styles.aliasNote}>
+                          {row.shared ? "In all products" : `Only in ${present.join(", ")}`}
+                          {row.riskDiffers ? " · rated differently" : ""}
+                        </Text>
+                      </View>
+                    );
+                  })}
+                </View>
+              ) : null}
+            </View>
+          ) : null}
           {history.length === 0 ? (
             <Text style={styles.historyEmpty}>No scans yet.</Text>
           ) : (
             history.map((entry) => {
               const thumb = entry.thumbnails?.front || entry.thumbnails?.back;
               const dateLabel = new Date(entry.createdAt).toLocaleDateString();
+              const picked = compareIds ? compareIds.indexOf(entry.id) + 1 : 0;
               return (
                 <Pressable
                   key={entry.id}
-                  style={styles.historyItem}
-                  onPress={() => loadHistory(entry)}
+                  style={[styles.historyItem, picked > 0 && styles.historyItemPicked]}
+                  onPress={() => (compareIds ? toggleCompareEntry(entry.id) : loadHistory(entry))}
                 >
                   {thumb ? (
                     <Image source={{ uri: thumb }} style={styles.historyThumb} />
                   ) : (
                     <View style={styles.historyThumbPlaceholder}>
                       <Text style={styles.historyThumbText}>
-                        {entry.mode === "text" ? "TXT" : "IMG"}
+                        {entry.mode === "text" ? "TXT" : entry.mode === "barcode" ? "BAR" : "IMG"}
                       </Text>
                     </View>
                   )}
                   <View style={styles.historyMeta}>
                     <Text style={styles.historySummary} numberOfLines={2}>
+                      {picked > 0 ? `${picked}. ` : ""}
                       {entry.result.summary || "Scan result"}
                     </Text>
                     <Text style={styles.historySub}>
-                      {RISK_LABELS[entry.result.overallRisk] || entry.result.overallRisk} -{" "}
+                      {RISK_LABELS[entry.result.overallRisk] || entry.result.overallRisk}
+                      {entry.result.score ? ` (${entry.result.score.score}/100)` : ""} -{" "}
                       {dateLabel}
                     </Text>
+                    {historyMixes.get(entry.id)?.length ? (
+                      <Text style={styles.reviewNote} numberOfLines={2}>
+                        Never mix with: {historyMixes.get(entry.id)?.join(", ")}
+                      </Text>
+                    ) : null}
                   </View>
                 </Pressable>
               );
@@ -1126,10 +1775,76 @@ const styles = StyleSheet.create({
     paddingTop: 8,
     gap: 2
   },
+  ingredientRowGuess: {
+    opacity: 0.75
+  },
   ingredientName: {
     fontWeight: "600",
     color: "#0f172a"
   },
+  provenanceNote: {
+    color: "#64748b",
+    fontSize: 12,
+    fontWeight: "600"
+  },
+  provenanceCatalog: {
+    color: "#15803d"
+  },
+  fallbackBanner: {
+    color: "#92400e",
+    backgroundColor: "#fef3c7",
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 12
+  },
+  scoreBlock: {
+    gap: 2
+  },
+  scoreValue: {
+    fontWeight: "700",
+    color: "#0f172a"
+  },
+  saferBlock: {
+    backgroundColor: "#dcfce7",
+    borderRadius: 8,
+    padding: 8,
+    gap: 6
+  },
+  saferTitle: {
+    color: "#166534",
+    fontWeight: "700"
+  },
+  compareBlock: {
+    gap: 8
+  },
+  compareRow: {
+    gap: 2,
+    paddingTop: 6,
+    borderTopWidth: 1,
+    borderTopColor: "#e2e8f0"
+  },
+  hazardBlock: {
+    backgroundColor: "#fee2e2",
+    borderRadius: 8,
+    padding: 8,
+    gap: 2
+  },
+  hazardTitle: {
+    color: "#991b1b",
+    fontWeight: "700"
+  },
+  hazardText: {
+    color: "#7f1d1d",
+    fontSize: 12
+  },
+  aliasNote: {
+    color: "#64748b",
+    fontSize: 12
+  },
+  reviewNote: {
+    color: "#b45309",
+    fontSize: 12
+  },
   ingredientRisk: {
     color: "#1e293b"
   },
@@ -1172,6 +1887,18 @@ const styles = StyleSheet.create({
     paddingVertical: 10,
     textAlignVertical: "top"
   },
+  transcript: {
+    gap: 10
+  },
+  questionText: {
+    alignSelf: "flex-end",
+    maxWidth: "85%",
+    backgroundColor: "#e0e7ff",
+    color: "#1e1b4b",
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 6
+  },
   answerBlock: {
     gap: 8
   },
@@ -1186,6 +1913,11 @@ const styles = StyleSheet.create({
     padding: 14,
     gap: 12
   },
+  historyHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between"
+  },
   historyTitle: {
     fontSize: 16,
     fontWeight: "700",
@@ -1202,6 +1934,9 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: "#e2e8f0"
   },
+  historyItemPicked: {
+    backgroundColor: "#eff6ff"
+  },
   historyThumb: {
     width: 64,
     height: 64,
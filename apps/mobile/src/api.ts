@@ -1,15 +1,27 @@
-import { ScanResult, SourceRef } from "@what-we-use/shared";
+import {
+  AlternativesResult,
+  ChatMessage,
+  IngredientRisk,
+  Product,
+  ProductComparison,
+  ScanResult,
+  SensitivityProfile,
+  SourceRef
+} from "@what-we-use/shared";
 
 import { requireApiBaseUrl } from "./config";
 
-export async function scanFromText(text: string): Promise<ScanResult> {
+export async function scanFromText(
+  text: string,
+  sensitivities: SensitivityProfile[] = []
+): Promise<ScanResult> {
   const baseUrl = requireApiBaseUrl();
   const response = await fetch(`${baseUrl}/api/scan`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json"
     },
-    body: JSON.stringify({ text })
+    body: JSON.stringify({ text, ...(sensitivities.length ? { sensitivities } : {}) })
   });
 
   let payload: any = null;
@@ -27,19 +39,128 @@ export async function scanFromText(text: string): Promise<ScanResult> {
   return payload as ScanResult;
 }
 
-export async function askAboutScan(input: {
-  question: string;
+/** The product for a barcode, or null when it isn't in the catalog yet. */
+export async function lookupProduct(
+  barcode: string,
+  sensitivities: SensitivityProfile[] = []
+): Promise<Product | null> {
+  const baseUrl = requireApiBaseUrl();
+  const query = new URLSearchParams({ barcode });
+  if (sensitivities.length) query.set("sensitivities", sensitivities.join(","));
+  const response = await fetch(`${baseUrl}/api/products?${query.toString()}`);
+  if (response.status === 404) return null;
+
+  let payload: any = null;
+  try {
+    payload = await response.json();
+  } catch {
+    payload = null;
+  }
+
+  if (!response.ok) {
+    const message = payload?.error || payload?.details || "Product lookup failed.";
+    throw new Error(message);
+  }
+
+  return (payload?.product as Product) || null;
+}
+
+/** A catalog entry from `GET /api/ingredients` search. */
+export type IngredientSuggestion = {
+  slug: string;
+  name: string;
+  aliases: string[];
+  category: string;
+  healthFlags: string[];
+  risk: IngredientRisk;
+  matchedAlias?: string;
+};
+
+export type IngredientSearchPage = {
+  items: IngredientSuggestion[];
+  total: number;
+  nextOffset: number | null;
+};
+
+export async function searchIngredients(input: {
+  q?: string;
+  category?: string;
+  risk?: IngredientRisk;
+  limit?: number;
+  offset?: number;
+}): Promise<IngredientSearchPage> {
+  const baseUrl = requireApiBaseUrl();
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(input)) {
+    if (value !== undefined && value !== "") query.set(key, String(value));
+  }
+  const response = await fetch(`${baseUrl}/api/ingredients?${query.toString()}`);
+
+  let payload: any = null;
+  try {
+    payload = await response.json();
+  } catch {
+    payload = null;
+  }
+
+  if (!response.ok) {
+    const message = payload?.error || payload?.details || "Ingredient search failed.";
+    throw new Error(message);
+  }
+
+  return {
+    items: Array.isArray(payload?.items) ? payload.items : [],
+    total: typeof payload?.total === "number" ? payload.total : 0,
+    nextOffset: typeof payload?.nextOffset === "number" ? payload.nextOffset : null
+  };
+}
+
+/** Saves label text under a barcode; the server analyzes it and keeps the result. */
+export async function saveProduct(input: {
+  barcode: string;
+  name: string;
+  labelText: string;
+  /** Product type; "Safer options" compares products within it. */
+  category?: string;
+}): Promise<Product> {
+  const baseUrl = requireApiBaseUrl();
+  const response = await fetch(`${baseUrl}/api/products`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify(input)
+  });
+
+  let payload: any = null;
+  try {
+    payload = await response.json();
+  } catch {
+    payload = null;
+  }
+
+  if (!response.ok) {
+    const message = payload?.error || payload?.details || "Saving the product failed.";
+    throw new Error(message);
+  }
+
+  return payload.product as Product;
+}
+
+export async function findAlternatives(input: {
   scan: ScanResult;
-}): Promise<{ answer: string; sources: SourceRef[] }> {
+  barcode?: string;
+}): Promise<AlternativesResult> {
   const baseUrl = requireApiBaseUrl();
-  const response = await fetch(`${baseUrl}/api/chat`, {
+  const response = await fetch(`${baseUrl}/api/alternatives`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json"
     },
+    // A stored product carries its category, which finds whole-product alternatives too.
     body: JSON.stringify({
-      question: input.question,
-      scan: input.scan
+      scan: input.scan,
+      ...(input.barcode ? { barcode: input.barcode } : {})
     })
   });
 
@@ -51,12 +172,192 @@ export async function askAboutScan(input: {
   }
 
   if (!response.ok) {
-    const message = payload?.details || payload?.error || "Question failed.";
+    const message = payload?.error || payload?.details || "Finding alternatives failed.";
+    throw new Error(message);
+  }
+
+  return {
+    products: Array.isArray(payload?.products) ? payload.products : [],
+    ingredients: Array.isArray(payload?.ingredients) ? payload.ingredients : []
+  };
+}
+
+export async function compareProducts(
+  products: Array<{ label: string; scan: ScanResult }>
+): Promise<ProductComparison> {
+  const baseUrl = requireApiBaseUrl();
+  const response = await fetch(`${baseUrl}/api/compare`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({ products })
+  });
+
+  let payload: any = null;
+  try {
+    payload = await response.json();
+  } catch {
+    payload = null;
+  }
+
+  if (!response.ok) {
+    const message = payload?.error || payload?.details || "Comparing products failed.";
     throw new Error(message);
   }
 
+  return {
+    products: Array.isArray(payload?.products) ? payload.products : [],
+    rows: Array.isArray(payload?.rows) ? payload.rows : [],
+    bestIndex: typeof payload?.bestIndex === "number" ? payload.bestIndex : null,
+    verdict: String(payload?.verdict || "")
+  };
+}
+
+export type ChatAnswer = { answer: string; sources: SourceRef[] };
+
+function readChatPayload(payload: any): ChatAnswer {
   return {
     answer: String(payload?.answer || ""),
     sources: Array.isArray(payload?.sources) ? payload.sources : []
   };
 }
+
+/**
+ * Posts with `Accept: text/event-stream` and reports the answer so far as `delta` events
+ * arrive. fetch in React Native can't read a body incrementally, so this uses
+ * XMLHttpRequest progress events. Resolves null when streaming isn't possible and nothing
+ * was received, so the caller can retry as a plain JSON request.
+ */
+function streamChat(
+  url: string,
+  body: string,
+  onAnswerText: (answer: string) => void
+): Promise<ChatAnswer | null> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let offset = 0;
+    let answer = "";
+    let settled = false;
+
+    const settle = (result: ChatAnswer | null, error?: Error) => {
+      if (settled) return;
+      settled = true;
+      if (error) reject(error);
+      else resolve(result);
+    };
+
+    const isEventStream = () =>
+      /text\/event-stream/i.test(xhr.getResponseHeader("Content-Type") || "");
+
+    const consume = () => {
+      if (!isEventStream()) return;
+      const text = xhr.responseText || "";
+      const end = text.lastIndexOf("\n\n");
+      if (end < offset) return;
+      const blocks = text.slice(offset, end).split("\n\n");
+      offset = end + 2;
+
+      for (const block of blocks) {
+        const lines = block.split("\n");
+        const event = lines
+          .find((line) => line.startsWith("event:"))
+          ?.slice(6)
+          .trim();
+        const data = lines
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trim())
+          .join("\n");
+        if (!event || !data) continue;
+
+        let payload: any = null;
+        try {
+          payload = JSON.parse(data);
+        } catch {
+          continue;
+        }
+
+        if (event === "delta") {
+          answer += String(payload?.text || "");
+          onAnswerText(answer);
+        } else if (event === "done") {
+          settle(readChatPayload(payload));
+        } else if (event === "error") {
+          settle(null, new Error(payload?.details || payload?.error || "Question failed."));
+        }
+      }
+    };
+
+    xhr.open("POST", url);
+    xhr.setRequestHeader("Content-Type", "application/json");
+    xhr.setRequestHeader("Accept", "text/event-stream");
+    xhr.onprogress = consume;
+    xhr.onload = () => {
+      if (isEventStream()) {
+        consume();
+        settle(null, answer ? new Error("The answer was cut off. Please try again.") : undefined);
+        return;
+      }
+
+      // Error responses and servers without streaming answer with plain JSON.
+      let payload: any = null;
+      try {
+        payload = JSON.parse(xhr.responseText);
+      } catch {
+        payload = null;
+      }
+      if (xhr.status < 200 || xhr.status >= 300) {
+        settle(null, new Error(payload?.details || payload?.error || "Question failed."));
+        return;
+      }
+      settle(payload ? readChatPayload(payload) : null);
+    };
+    xhr.onerror = () => {
+      settle(null, answer ? new Error("The answer was cut off. Please try again.") : undefined);
+    };
+    xhr.send(body);
+  });
+}
+
+export async function askAboutScan(input: {
+  question: string;
+  scan: ScanResult;
+  /** Earlier turns of this conversation, oldest first. */
+  messages?: ChatMessage[];
+  /** Called with the answer text received so far; enables streaming when provided. */
+  onAnswerText?: (answer: string) => void;
+}): Promise<ChatAnswer> {
+  const baseUrl = requireApiBaseUrl();
+  const body = JSON.stringify({
+    question: input.question,
+    scan: input.scan,
+    messages: input.messages || []
+  });
+
+  if (input.onAnswerText) {
+    const streamed = await streamChat(`${baseUrl}/api/chat`, body, input.onAnswerText);
+    if (streamed) return streamed;
+  }
+
+  const response = await fetch(`${baseUrl}/api/chat`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body
+  });
+
+  let payload: any = null;
+  try {
+    payload = await response.json();
+  } catch {
+    payload = null;
+  }
+
+  if (!response.ok) {
+    const message = payload?.details || payload?.error || "Question failed.";
+    throw new Error(message);
+  }
+
+  return readChatPayload(payload);
+}
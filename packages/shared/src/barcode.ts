@@ -0,0 +1,23 @@
+const BARCODE_LENGTHS = new Set([8, 12, 13, 14]);
+
+/** GS1 check digit for the digits before it: weights 3 and 1 alternate from the right. */
+function gs1CheckDigit(body: string): number {
+  let sum = 0;
+  for (let index = 0; index < body.length; index += 1) {
+    const weight = (body.length - index) % 2 === 1 ? 3 : 1;
+    sum += Number(body[index]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Normalizes an EAN-8, UPC-A, EAN-13 or GTIN-14 barcode to a 14-digit GTIN, so the same
+ * product scanned as UPC-A or EAN-13 gets one key. Returns null for anything else, including
+ * codes whose check digit doesn't match.
+ */
+export function normalizeBarcode(value: string): string | null {
+  const digits = String(value || "").replace(/[\s-]/g, "");
+  if (!/^\d+$/.test(digits) || !BARCODE_LENGTHS.has(digits.length)) return null;
+  if (gs1CheckDigit(digits.slice(0, -1)) !== Number(digits[digits.length - 1])) return null;
+  return digits.padStart(14, "0");
+}
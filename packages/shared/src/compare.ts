@@ -0,0 +1,167 @@
+import type { GhsHazards } from "./ghs";
+import type { Ingredient, IngredientRisk } from "./index";
+import { ProductScore, scoreProduct } from "./score";
+
+export interface CompareRow {
+  slug: string;
+  name: string;
+  /** Risk in each product, in input order; null where the product doesn't contain it. */
+  risks: Array<IngredientRisk | null>;
+  /** In every product compared. */
+  shared: boolean;
+  /** Rated differently by the products that contain it (e.g. after concentration weighting). */
+  riskDiffers: boolean;
+}
+
+export interface ComparedProduct {
+  label: string;
+  overallRisk: IngredientRisk;
+  score: number;
+  /** Caution or avoid ingredients. */
+  flaggedCount: number;
+  /** Names of ingredients no other product in the comparison has. */
+  uniqueIngredients: string[];
+}
+
+export interface ProductComparison {
+  products: ComparedProduct[];
+  rows: CompareRow[];
+  /** Index of the least concerning product, or null when they are level. */
+  bestIndex: number | null;
+  verdict: string;
+}
+
+/** A `ScanResult` is accepted as is; stored or client-sent results may carry less. */
+export type CompareInput = {
+  label: string;
+  result: {
+    ingredients: Ingredient[];
+    overallRisk: IngredientRisk;
+    score?: Pick<ProductScore, "score">;
+    hazards?: Pick<GhsHazards, "signalWord"> | null;
+  };
+};
+
+const RISK_RANK: Record<IngredientRisk, number> = { safe: 1, caution: 2, avoid: 3 };
+
+function worstRisk(risks: Array<IngredientRisk | null>): number {
+  return Math.max(0, ...risks.map((risk) => (risk ? RISK_RANK[risk] : 0)));
+}
+
+/** Negative when `a` is less concerning: overall rating first, then score, then flag count. */
+function rank(a: ComparedProduct, b: ComparedProduct): number {
+  return (
+    RISK_RANK[a.overallRisk] - RISK_RANK[b.overallRisk] ||
+    b.score - a.score ||
+    a.flaggedCount - b.flaggedCount
+  );
+}
+
+function describe(product: ComparedProduct): string {
+  return `${product.overallRisk}, score ${product.score}`;
+}
+
+/** Ingredients that make `other` more concerning than `best`: flagged ones `best` lacks. */
+function extraConcerns(
+  best: Ingredient[],
+  other: Ingredient[]
+): Array<Pick<Ingredient, "name" | "risk">> {
+  const bestSlugs = new Set(best.map((item) => item.slug));
+  return other
+    .filter((item) => item.risk !== "safe" && !bestSlugs.has(item.slug))
+    .sort((a, b) => RISK_RANK[b.risk] - RISK_RANK[a.risk]);
+}
+
+/**
+ * Lines up the ingredients of two or more scans, shared ones first, and picks the least
+ * concerning product by overall rating, then score, then number of flagged ingredients.
+ * The verdict names the ingredients and label hazards behind the difference.
+ */
+export function compareScanResults(items: CompareInput[]): ProductComparison {
+  const bySlug = new Map<string, CompareRow>();
+
+  items.forEach((item, index) => {
+    for (const ingredient of item.result.ingredients) {
+      const row = bySlug.get(ingredient.slug) || {
+        slug: ingredient.slug,
+        name: ingredient.name,
+        risks: items.map(() => null),
+        shared: false,
+        riskDiffers: false
+      };
+      // The same slug twice in one product keeps the higher rating.
+      const current = row.risks[index];
+      if (!current || RISK_RANK[ingredient.risk] > RISK_RANK[current]) {
+        row.risks[index] = ingredient.risk;
+      }
+      bySlug.set(ingredient.slug, row);
+    }
+  });
+
+  const rows = Array.from(bySlug.values()).map((row) => {
+    const present = row.risks.filter((risk): risk is IngredientRisk => risk !== null);
+    return {
+      ...row,
+      shared: present.length === items.length,
+      riskDiffers: new Set(present).size > 1
+    };
+  });
+  rows.sort(
+    (a, b) =>
+      Number(b.shared) - Number(a.shared) ||
+      worstRisk(b.risks) - worstRisk(a.risks) ||
+      a.name.localeCompare(b.name)
+  );
+
+  const products: ComparedProduct[] = items.map((item, index) => ({
+    label: item.label,
+    overallRisk: item.result.overallRisk,
+    // Without a sent score, label hazards can't count towards it.
+    score: item.result.score?.score ?? scoreProduct({ ingredients: item.result.ingredients }).score,
+    flaggedCount: item.result.ingredients.filter((ingredient) => ingredient.risk !== "safe").length,
+    uniqueIngredients: rows
+      .filter((row) => row.risks[index] && row.risks.filter(Boolean).length === 1)
+      .map((row) => row.name)
+  }));
+
+  if (products.length < 2) {
+    return { products, rows, bestIndex: null, verdict: "Pick at least two products to compare." };
+  }
+
+  const order = products.map((_, index) => index).sort((a, b) => rank(products[a], products[b]));
+  const [bestIndex, runnerUp] = order;
+  const best = products[bestIndex];
+  if (rank(best, products[runnerUp]) === 0) {
+    return {
+      products,
+      rows,
+      bestIndex: null,
+      verdict: `${best.label} and ${products[runnerUp].label} are about the same (${describe(best)}).`
+    };
+  }
+
+  const reasons = order.slice(1).map((index) => {
+    const other = products[index];
+    const concerns = extraConcerns(
+      items[bestIndex].result.ingredients,
+      items[index].result.ingredients
+    )
+      .slice(0, 3)
+      .map((item) => `${item.name} (${item.risk})`);
+    const signalWord = items[index].result.hazards?.signalWord;
+    const details = [
+      concerns.length ? `it contains ${concerns.join(", ")}` : "",
+      signalWord && signalWord !== items[bestIndex].result.hazards?.signalWord
+        ? `its label says ${signalWord.toUpperCase()}`
+        : ""
+    ].filter(Boolean);
+    return `${other.label} (${describe(other)})${details.length ? `: ${details.join(" and ")}` : ""}`;
+  });
+
+  return {
+    products,
+    rows,
+    bestIndex,
+    verdict: `${best.label} is the least concerning (${describe(best)}). Compared with ${reasons.join("; ")}.`
+  };
+}
@@ -0,0 +1,438 @@
+import type { IngredientRisk } from "./index";
+
+export type GhsSignalWord = "danger" | "warning";
+
+export type GhsPictogram =
+  "GHS01" | "GHS02" | "GHS03" | "GHS04" | "GHS05" | "GHS06" | "GHS07" | "GHS08" | "GHS09";
+
+export interface GhsStatement {
+  /** "H318", "EUH206", "P305+P351+P338". */
+  code: string;
+  /** Standard wording, when the code is one this module knows. */
+  text?: string;
+  /** What was found on the label: the code itself or a phrase that maps to it. */
+  matched: string;
+}
+
+export interface GhsHazards {
+  signalWord?: GhsSignalWord;
+  hazardStatements: GhsStatement[];
+  precautionaryStatements: GhsStatement[];
+  pictograms: GhsPictogram[];
+  /** Lowest overall rating a product with these hazards can get. */
+  risk: IngredientRisk;
+}
+
+export const GHS_PICTOGRAM_LABELS: Record<GhsPictogram, string> = {
+  GHS01: "Explosive",
+  GHS02: "Flammable",
+  GHS03: "Oxidizer",
+  GHS04: "Gas under pressure",
+  GHS05: "Corrosive",
+  GHS06: "Acute toxicity",
+  GHS07: "Irritant / harmful",
+  GHS08: "Health hazard",
+  GHS09: "Environmental hazard"
+};
+
+type HazardDefinition = {
+  code: string;
+  text: string;
+  risk: IngredientRisk;
+  pictogram?: GhsPictogram;
+  /** Plain-English wordings used on labels that don't print the code. */
+  phrases?: RegExp[];
+};
+
+// The statements household cleaners carry most often. Codes outside this table are still
+// reported, without wording, and rated "caution".
+const HAZARDS: HazardDefinition[] = [
+  {
+    code: "H222",
+    text: "Extremely flammable aerosol",
+    risk: "avoid",
+    pictogram: "GHS02",
+    phrases: [/extremely flammable/]
+  },
+  {
+    code: "H225",
+    text: "Highly flammable liquid and vapour",
+    risk: "avoid",
+    pictogram: "GHS02",
+    phrases: [/highly flammable/]
+  },
+  {
+    code: "H226",
+    text: "Flammable liquid and vapour",
+    risk: "caution",
+    pictogram: "GHS02",
+    phrases: [/(?<!highly |extremely |non-?)flammable/]
+  },
+  {
+    code: "H229",
+    text: "Pressurised container: may burst if heated",
+    risk: "caution",
+    pictogram: "GHS04",
+    phrases: [/pressuri[sz]ed container|contents under pressure/]
+  },
+  {
+    code: "H290",
+    text: "May be corrosive to metals",
+    risk: "caution",
+    pictogram: "GHS05",
+    phrases: [/corrosive to metals?/]
+  },
+  {
+    code: "H300",
+    text: "Fatal if swallowed",
+    risk: "avoid",
+    pictogram: "GHS06",
+    phrases: [/fatal if swallowed/]
+  },
+  {
+    code: "H302",
+    text: "Harmful if swallowed",
+    risk: "caution",
+    pictogram: "GHS07",
+    phrases: [/harmful if swallowed/]
+  },
+  {
+    code: "H304",
+    text: "May be fatal if swallowed and enters airways",
+    risk: "avoid",
+    pictogram: "GHS08",
+    phrases: [/fatal if swallowed and enters airways/]
+  },
+  {
+    code: "H312",
+    text: "Harmful in contact with skin",
+    risk: "caution",
+    pictogram: "GHS07",
+    phrases: [/harmful (?:in contact with|if absorbed through) (?:the )?skin/]
+  },
+  {
+    code: "H314",
+    text: "Causes severe skin burns and eye damage",
+    risk: "avoid",
+    pictogram: "GHS05",
+    phrases: [/(?:severe )?skin burns|burns (?:to )?(?:skin|eyes)|\bcorrosive\b(?! to metals?)/]
+  },
+  {
+    code: "H315",
+    text: "Causes skin irritation",
+    risk: "caution",
+    pictogram: "GHS07",
+    phrases: [/skin irritation|skin irritant|irritating to (?:the )?skin/]
+  },
+  {
+    code: "H317",
+    text: "May cause an allergic skin reaction",
+    risk: "caution",
+    pictogram: "GHS07",
+    phrases: [/allergic skin reaction|skin sensiti[sz]/]
+  },
+  {
+    code: "H318",
+    text: "Causes serious eye damage",
+    risk: "avoid",
+    pictogram: "GHS05",
+    phrases: [/(?:serious|severe|irreversible|permanent) eye damage/]
+  },
+  {
+    code: "H319",
+    text: "Causes serious eye irritation",
+    risk: "caution",
+    pictogram: "GHS07",
+    phrases: [/eye irritation|eye irritant|irritating to (?:the )?eyes|temporary eye injury/]
+  },
+  {
+    code: "H331",
+    text: "Toxic if inhaled",
+    risk: "avoid",
+    pictogram: "GHS06",
+    phrases: [/toxic if inhaled/]
+  },
+  {
+    code: "H332",
+    text: "Harmful if inhaled",
+    risk: "caution",
+    pictogram: "GHS07",
+    phrases: [/harmful if inhaled|avoid breathing (?:vapou?rs?|mist|spray)/]
+  },
+  {
+    code: "H334",
+    text: "May cause allergy or asthma symptoms or breathing difficulties if inhaled",
+    risk: "avoid",
+    pictogram: "GHS08",
+    phrases: [/asthma symptoms|breathing difficulties/]
+  },
+  {
+    code: "H335",
+    text: "May cause respiratory irritation",
+    risk: "caution",
+    pictogram: "GHS07",
+    phrases: [
+      /respiratory (?:tract )?irritation|irritating to (?:the )?(?:respiratory|nose and throat)/
+    ]
+  },
+  {
+    code: "H336",
+    text: "May cause drowsiness or dizziness",
+    risk: "caution",
+    pictogram: "GHS07",
+    phrases: [/drowsiness or dizziness/]
+  },
+  {
+    code: "H400",
+    text: "Very toxic to aquatic life",
+    risk: "caution",
+    pictogram: "GHS09",
+    phrases: [/very toxic to aquatic life(?! with long lasting)/]
+  },
+  {
+    code: "H410",
+    text: "Very toxic to aquatic life with long lasting effects",
+    risk: "caution",
+    pictogram: "GHS09",
+    phrases: [/very toxic to aquatic life with long lasting/]
+  },
+  {
+    code: "H411",
+    text: "Toxic to aquatic life with long lasting effects",
+    risk: "caution",
+    pictogram: "GHS09",
+    phrases: [/(?<!very )toxic to aquatic life with long lasting/]
+  },
+  {
+    code: "H412",
+    text: "Harmful to aquatic life with long lasting effects",
+    risk: "caution",
+    phrases: [/harmful to aquatic life/]
+  },
+  {
+    code: "EUH031",
+    text: "Contact with acids liberates toxic gas",
+    risk: "avoid",
+    phrases: [/contact with acids? (?:liberates|releases) toxic gas/]
+  },
+  {
+    code: "EUH206",
+    text: "Do not use together with other products. May release dangerous gases (chlorine)",
+    risk: "avoid",
+    phrases: [
+      /do not (?:use together|mix) with (?:other|any other) (?:products|cleaners|chemicals)/,
+      /do not mix with (?:ammonia|acids?|vinegar|bleach)/,
+      /(?:release|produce)s? (?:dangerous|hazardous|toxic) (?:gas|gases|fumes)/
+    ]
+  }
+];
+
+const PRECAUTIONS: Array<{ code: string; text: string; phrases: RegExp[] }> = [
+  {
+    code: "P102",
+    text: "Keep out of reach of children",
+    phrases: [/keep out of reach of children/]
+  },
+  {
+    code: "P260",
+    text: "Do not breathe dust/fume/gas/mist/vapours/spray",
+    phrases: [/do not breathe (?:vapou?rs?|mist|spray|fumes)/]
+  },
+  {
+    code: "P280",
+    text: "Wear protective gloves/protective clothing/eye protection/face protection",
+    phrases: [/wear (?:protective )?(?:rubber )?gloves|wear (?:eye|face) protection|wear goggles/]
+  },
+  {
+    code: "P301+P310",
+    text: "If swallowed: immediately call a poison center/doctor",
+    phrases: [/if swallowed:?,? (?:immediately )?call a poison (?:control )?cent(?:er|re)/]
+  },
+  {
+    code: "P305+P351+P338",
+    text: "If in eyes: rinse cautiously with water for several minutes",
+    phrases: [/if in eyes:?,? rinse/]
+  }
+];
+
+const HAZARD_PICTOGRAM_RANGES: Array<{ from: number; to: number; pictogram: GhsPictogram }> = [
+  { from: 200, to: 208, pictogram: "GHS01" },
+  { from: 220, to: 228, pictogram: "GHS02" },
+  { from: 270, to: 272, pictogram: "GHS03" },
+  { from: 280, to: 281, pictogram: "GHS04" }
+];
+
+const RISK_ORDER: Record<IngredientRisk, number> = { safe: 1, caution: 2, avoid: 3 };
+
+function maxRisk(a: IngredientRisk, b: IngredientRisk): IngredientRisk {
+  return RISK_ORDER[b] > RISK_ORDER[a] ? b : a;
+}
+
+function pictogramForCode(code: string): GhsPictogram | undefined {
+  const known = HAZARDS.find((item) => item.code === code);
+  if (known) return known.pictogram;
+  const number = Number(code.replace(/^H/, ""));
+  return HAZARD_PICTOGRAM_RANGES.find((range) => number >= range.from && number <= range.to)
+    ?.pictogram;
+}
+
+// Marketing claims such as "non-corrosive", "does not cause skin irritation", "won't cause
+// eye damage" or "danger-free" name a hazard only to deny it. The denial has to be in the
+// same clause and at most three words before the phrase, so "Do not get in eyes as it causes
+// eye irritation" still counts.
+const NEGATED_BEFORE =
+  /(?:\b(?:no|not|non|never|zero|without|cannot)|\bfree (?:of|from)|n['’]t)\b[\s-]*(?:[^\s.;:!?]+[\s-]+){0,3}$/i;
+const NEGATED_AFTER = /^[\s-]*free\b/i;
+
+function isNegated(text: string, start: number, end: number): boolean {
+  const clause = /[^.;:!?\n]*$/.exec(text.slice(0, start))?.[0] || "";
+  return NEGATED_BEFORE.test(clause) || NEGATED_AFTER.test(text.slice(end, end + 8));
+}
+
+/** First occurrence of `phrase` in `text` that isn't negated. */
+function findPhrase(phrase: RegExp, text: string): RegExpMatchArray | undefined {
+  for (const match of text.matchAll(new RegExp(phrase.source, "g"))) {
+    const start = match.index ?? 0;
+    if (!isNegated(text, start, start + match[0].length)) return match;
+  }
+  return undefined;
+}
+
+// A signal word is a standalone label token: printed in capitals, or opening a line on its own
+// or before ":" or "!". "Warnings:" headers and prose such as "no danger to pets" don't count.
+const SIGNAL_WORD_PATTERNS = [
+  /\b(DANGER|WARNING)\b/g,
+  /^[ \t]*(danger|warning)[ \t]*(?=[:!]|$)/gim
+];
+
+/** "DANGER" outranks "WARNING" when both appear. */
+function findSignalWord(text: string): GhsSignalWord | undefined {
+  const found = new Set<GhsSignalWord>();
+  for (const pattern of SIGNAL_WORD_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = (match.index ?? 0) + match[0].indexOf(match[1]);
+      if (!isNegated(text, start, start + match[1].length)) {
+        found.add(match[1].toLowerCase() as GhsSignalWord);
+      }
+    }
+  }
+  if (found.has("danger")) return "danger";
+  return found.has("warning") ? "warning" : undefined;
+}
+
+// Where a label's warnings start: a "Warnings:"/"Caution:"/"Precautions:"/"First aid:" style
+// header, "Keep out of reach", or a signal word in capitals. They run until a section such
+// as "Ingredients:" or "Directions:" begins.
+const WARNING_SECTION_START =
+  /(?:^|\n|[.!]\s+)(?:(?:warnings?(?:\s+or\s+cautions?)?|cautions?|danger|precautions?|precautionary\s+statements|hazards?(?:\s+statements)?|first\s+aid)\s*[:!\n]|(?=keep\s+out\s+of\s+reach))/gi;
+const OTHER_SECTION_START =
+  /(?:^|\n|[.!]\s+)(?:(?:ingredients?|composition|contains|directions(?:\s+for\s+use)?|how\s+to\s+use|storage|disposal|product\s+name)\s*[:\n]|(?:made\s+in|distributed\s+by|manufactured\s+(?:by|for)|net\s+(?:wt|weight|contents))\b)/gi;
+
+/**
+ * The label's warning sections joined together, so marketing copy and ingredient names
+ * can't produce hazard phrases. Text without a recognizable warnings section, such as a
+ * single line the app picked out, is searched whole.
+ */
+function findWarningText(text: string): string {
+  const starts = [
+    ...Array.from(
+      text.matchAll(WARNING_SECTION_START),
+      (match) => (match.index ?? 0) + match[0].length
+    ),
+    ...Array.from(text.matchAll(SIGNAL_WORD_PATTERNS[0]), (match) => match.index ?? 0)
+  ].sort((a, b) => a - b);
+  if (!starts.length) return text;
+
+  const ends = Array.from(text.matchAll(OTHER_SECTION_START), (match) => match.index ?? 0);
+  const sections: string[] = [];
+  let covered = 0;
+  for (const start of starts) {
+    if (start < covered) continue;
+    covered = ends.find((end) => end > start) ?? text.length;
+    sections.push(text.slice(start, covered));
+  }
+  return sections.join(". ");
+}
+
+/**
+ * Reads GHS hazard information from label text: the signal word, H/EUH and P codes (including
+ * combined codes such as "P305+P351+P338"), printed pictogram codes, and common English
+ * wordings of the statements for labels that don't print codes.
+ */
+export function parseGhsHazards(text: string): GhsHazards | null {
+  const source = String(text || "");
+  if (!source.trim()) return null;
+  // Codes and signal words count anywhere on the label; plain-English phrases only in warnings.
+  const lower = findWarningText(source).toLowerCase().replace(/\s+/g, " ");
+
+  const hazards = new Map<string, GhsStatement>();
+  const precautions = new Map<string, GhsStatement>();
+
+  for (const match of source.matchAll(/\b(EUH\s?\d{3}|H\s?\d{3}[A-Za-z]{0,2})\b/g)) {
+    const code = match[1].replace(/\s+/g, "").toUpperCase();
+    if (hazards.has(code)) continue;
+    const known = HAZARDS.find((item) => item.code === code);
+    hazards.set(code, { code, ...(known ? { text: known.text } : {}), matched: match[0] });
+  }
+  for (const definition of HAZARDS) {
+    if (hazards.has(definition.code)) continue;
+    for (const phrase of definition.phrases || []) {
+      const found = findPhrase(phrase, lower);
+      if (found) {
+        hazards.set(definition.code, {
+          code: definition.code,
+          text: definition.text,
+          matched: found[0]
+        });
+        break;
+      }
+    }
+  }
+
+  for (const match of source.matchAll(/\bP\s?\d{3}(?:\s?\+\s?P\s?\d{3})*\b/g)) {
+    const code = match[0].replace(/\s+/g, "").toUpperCase();
+    if (precautions.has(code)) continue;
+    const known = PRECAUTIONS.find((item) => item.code === code);
+    precautions.set(code, { code, ...(known ? { text: known.text } : {}), matched: match[0] });
+  }
+  for (const definition of PRECAUTIONS) {
+    if (precautions.has(definition.code)) continue;
+    const found = definition.phrases.map((phrase) => findPhrase(phrase, lower)).find(Boolean);
+    if (found) {
+      precautions.set(definition.code, {
+        code: definition.code,
+        text: definition.text,
+        matched: found[0]
+      });
+    }
+  }
+
+  const signalWord = findSignalWord(source);
+  const hazardStatements = Array.from(hazards.values());
+  const pictograms = new Set<GhsPictogram>();
+  for (const match of source.matchAll(/\bGHS\s?0([1-9])\b/gi)) {
+    pictograms.add(`GHS0${match[1]}` as GhsPictogram);
+  }
+  for (const statement of hazardStatements) {
+    const pictogram = pictogramForCode(statement.code);
+    if (pictogram) pictograms.add(pictogram);
+  }
+
+  if (!signalWord && !hazardStatements.length && !precautions.size && !pictograms.size) {
+    return null;
+  }
+
+  let risk: IngredientRisk = signalWord === "danger" ? "avoid" : signalWord ? "caution" : "safe";
+  for (const statement of hazardStatements) {
+    const known = HAZARDS.find((item) => item.code === statement.code);
+    risk = maxRisk(risk, known?.risk || "caution");
+  }
+
+  return {
+    ...(signalWord ? { signalWord } : {}),
+    hazardStatements,
+    precautionaryStatements: Array.from(precautions.values()),
+    pictograms: Array.from(pictograms).sort(),
+    risk
+  };
+}
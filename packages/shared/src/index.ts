@@ -1,3 +1,9 @@
+import { GhsHazards } from "./ghs";
+import { InteractionWarning } from "./interactions";
+import { ConcentrationBand } from "./labelParser";
+import { ProductScore } from "./score";
+import { SensitivityMatch, SensitivityProfile } from "./sensitivity";
+
 export type IngredientRisk = "safe" | "caution" | "avoid";
 
 export interface SourceRef {
@@ -5,6 +11,18 @@ export interface SourceRef {
   url?: string;
 }
 
+/**
+ * Where an ingredient's risk came from: the curated catalog, the analysis model, or the
+ * fallback parser that marks every unrecognized name "caution".
+ */
+export type IngredientProvenance = "catalog" | "ai" | "fallback";
+
+export interface IngredientMatchSuggestion {
+  name: string;
+  slug: string;
+  score: number;
+}
+
 export interface Ingredient {
   name: string;
   slug: string;
@@ -12,12 +30,104 @@ export interface Ingredient {
   notes?: string;
   regulatoryNotes?: string;
   sources?: SourceRef[];
+  matchedAlias?: string;
+  matchScore?: number;
+  suggestedMatch?: IngredientMatchSuggestion;
+  provenance?: IngredientProvenance;
+  /** 0-1; how far to trust `risk`, given its provenance and how closely the name matched. */
+  confidence?: number;
+  concentration?: ConcentrationBand;
+  /** Risk before concentration weighting, set only when the band changed it. */
+  baseRisk?: IngredientRisk;
+  /** Catalog category, e.g. "oxidizer" or "quat". */
+  category?: string;
+  /** Catalog health flags, e.g. "skin irritant" or "asthma trigger". */
+  healthFlags?: string[];
+  /** The user's sensitivity profiles this ingredient concerns. */
+  sensitivityMatches?: SensitivityMatch[];
+  /** Risk for someone without those sensitivities, set only when they raised it. */
+  generalRisk?: IngredientRisk;
+}
+
+export interface ModelErrorInfo {
+  code: string;
+  message: string;
+  issues?: Array<{ path: string; message: string }>;
+}
+
+export interface ScanMeta {
+  aiError?: ModelErrorInfo;
+  catalogIndexUnavailable?: boolean;
+  catalogReadFailures?: string[];
+  cached?: boolean;
+  cachedAt?: string;
 }
 
 export interface ScanResult {
   ingredients: Ingredient[];
   overallRisk: IngredientRisk;
   summary: string;
+  /** True when any ingredient's risk is a fallback guess rather than catalog or AI data. */
+  usedFallback?: boolean;
+  /** GHS signal word and statements printed on the label; they set a floor on `overallRisk`. */
+  hazards?: GhsHazards;
+  /** Ingredient pairs in this product that are dangerous together. */
+  interactions?: InteractionWarning[];
+  /** 0-100 score with the factors behind it; `overallRisk` is still the headline rating. */
+  score?: ProductScore;
+  /** Profiles the result was personalized for; ratings and score already include them. */
+  sensitivities?: SensitivityProfile[];
+  meta?: ScanMeta;
+}
+
+/** A packaged product, keyed by barcode, with the last analysis of its label. */
+export interface Product {
+  /** 14-digit GTIN; see `normalizeBarcode`. */
+  gtin: string;
+  name: string;
+  brand?: string;
+  /** Product type, e.g. "all-purpose-cleaner"; alternatives are found within it. */
+  category?: string;
+  ingredientSlugs: string[];
+  labelText?: string;
+  /** ISO timestamp of `lastResult`. */
+  lastAnalyzedAt?: string;
+  /** Stored without personalization; sensitivity profiles are applied per request. */
+  lastResult?: ScanResult;
+  updatedAt?: string;
+}
+
+/** Another catalog product of the same type that rates better than the scanned one. */
+export interface ProductAlternative {
+  gtin: string;
+  name: string;
+  brand?: string;
+  overallRisk: IngredientRisk;
+  score?: number;
+  reason: string;
+}
+
+/** A lower-risk catalog ingredient that does the same job as a flagged one. */
+export interface IngredientSubstitute {
+  /** Name of the scanned ingredient it replaces. */
+  replaces: string;
+  slug: string;
+  name: string;
+  risk: IngredientRisk;
+  reason: string;
+}
+
+export interface AlternativesResult {
+  products: ProductAlternative[];
+  ingredients: IngredientSubstitute[];
+}
+
+export type ChatRole = "user" | "assistant";
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  sources?: SourceRef[];
 }
 
 export const RISK_LABELS: Record<IngredientRisk, string> = {
@@ -26,6 +136,40 @@ export const RISK_LABELS: Record<IngredientRisk, string> = {
   avoid: "Avoid"
 };
 
+export const PROVENANCE_LABELS: Record<IngredientProvenance, string> = {
+  catalog: "Curated catalog",
+  ai: "AI estimate",
+  fallback: "Unverified guess"
+};
+
+export type ProductCategory =
+  | "all-purpose-cleaner"
+  | "bathroom-cleaner"
+  | "kitchen-cleaner"
+  | "glass-cleaner"
+  | "floor-cleaner"
+  | "toilet-cleaner"
+  | "drain-cleaner"
+  | "dish-soap"
+  | "laundry-detergent"
+  | "disinfectant"
+  | "air-freshener";
+
+/** The product types the app offers when a new barcode is saved; the API takes any slug. */
+export const PRODUCT_CATEGORY_LABELS: Record<ProductCategory, string> = {
+  "all-purpose-cleaner": "All-purpose cleaner",
+  "bathroom-cleaner": "Bathroom cleaner",
+  "kitchen-cleaner": "Kitchen cleaner",
+  "glass-cleaner": "Glass cleaner",
+  "floor-cleaner": "Floor cleaner",
+  "toilet-cleaner": "Toilet cleaner",
+  "drain-cleaner": "Drain cleaner",
+  "dish-soap": "Dish soap",
+  "laundry-detergent": "Laundry detergent",
+  disinfectant: "Disinfectant",
+  "air-freshener": "Air freshener"
+};
+
 const RISK_ORDER: Record<IngredientRisk, number> = {
   safe: 1,
   caution: 2,
@@ -62,3 +206,35 @@ export function getOverallRisk(ingredients: Array<Pick<Ingredient, "risk">>): In
 
   return top;
 }
+
+// At or below this share an ingredient is a trace (e.g. a preservative); at or above it, a
+// main active ingredient.
+const TRACE_THRESHOLD_PERCENT = 1;
+const MAJOR_MIN_PERCENT = 15;
+
+/**
+ * Weighs a rating by how much of the product the ingredient is: a trace of an "avoid"
+ * ingredient drops to "caution", and a "caution" ingredient that makes up a large share
+ * rises to "avoid". "safe" ratings are never changed.
+ */
+export function weighRiskByConcentration(
+  risk: IngredientRisk,
+  band: ConcentrationBand | null | undefined
+): IngredientRisk {
+  if (!band) return risk;
+  if (risk === "avoid" && band.max !== undefined && band.max <= TRACE_THRESHOLD_PERCENT) {
+    return "caution";
+  }
+  if (risk === "caution" && band.min !== undefined && band.min >= MAJOR_MIN_PERCENT) {
+    return "avoid";
+  }
+  return risk;
+}
+
+export * from "./barcode";
+export * from "./compare";
+export * from "./ghs";
+export * from "./interactions";
+export * from "./labelParser";
+export * from "./score";
+export * from "./sensitivity";
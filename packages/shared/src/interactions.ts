@@ -0,0 +1,148 @@
+import type { Ingredient } from "./index";
+
+/** A set of ingredients that behave alike when mixed: by catalog category or slug. */
+type InteractionGroup = {
+  categories?: string[];
+  slugs?: RegExp;
+};
+
+type InteractionRule = {
+  id: string;
+  groups: [InteractionGroup, InteractionGroup];
+  message: string;
+};
+
+export type InteractionIngredient = Pick<Ingredient, "name" | "slug" | "category">;
+
+export interface InteractionWarning {
+  /** Stable rule id, e.g. "bleach-ammonia". */
+  rule: string;
+  message: string;
+  /** The two ingredients that react, first from this product, then from the other. */
+  ingredients: [string, string];
+  /** Label of the other product; absent when both ingredients are in the same product. */
+  otherProduct?: string;
+}
+
+const CHLORINE_BLEACH: InteractionGroup = {
+  slugs: /hypochlorite|bleach|chlorine|dichloroisocyanur|trichloroisocyanur/
+};
+const AMMONIA: InteractionGroup = { slugs: /ammonia|ammonium-hydroxide/ };
+// Reactive acids and alcohols are listed by name: fatty acids and fatty alcohols (lauric acid,
+// cetyl alcohol) and ethanolamines share the suffixes but don't react with bleach.
+const ACIDS: InteractionGroup = {
+  categories: ["acid"],
+  slugs:
+    /^(?:hydrochloric|muriatic|sulfuric|sulphuric|phosphoric|sulfamic|nitric|formic|oxalic|citric|acetic|lactic|glycolic|hydroxyacetic)-acid$|^sodium-(?:bisulfate|hydrogen-sulfate)$|vinegar/
+};
+const ALCOHOLS: InteractionGroup = {
+  slugs:
+    /^(?:ethanol|ethyl-alcohol|alcohol|alcohol-denat|denatured-alcohol|sd-alcohol-\w+|isopropanol|isopropyl-alcohol|propanol|2-propanol|methanol|methyl-alcohol)$/
+};
+const PEROXIDE: InteractionGroup = { slugs: /peroxide|percarbonate/ };
+const ACETIC: InteractionGroup = { slugs: /vinegar|acetic-acid/ };
+const OXIDIZERS: InteractionGroup = { categories: ["oxidizer"] };
+const QUATS: InteractionGroup = {
+  categories: ["quat"],
+  slugs: /benzalkonium|quaternium|alkyl-dimethyl-benzyl-ammonium/
+};
+const STRONG_ACIDS: InteractionGroup = { slugs: /hydrochloric|sulfuric|sulphuric|muriatic/ };
+const STRONG_BASES: InteractionGroup = {
+  slugs: /sodium-hydroxide|potassium-hydroxide|(?:^|-)lye$/
+};
+
+// Each rule is checked in both directions, so group order doesn't matter.
+const RULES: InteractionRule[] = [
+  {
+    id: "bleach-ammonia",
+    groups: [CHLORINE_BLEACH, AMMONIA],
+    message: "Never mix bleach with ammonia: it releases toxic chloramine gas."
+  },
+  {
+    id: "bleach-acid",
+    groups: [CHLORINE_BLEACH, ACIDS],
+    message: "Never mix bleach with acids such as vinegar or descalers: it releases chlorine gas."
+  },
+  {
+    id: "bleach-alcohol",
+    groups: [CHLORINE_BLEACH, ALCOHOLS],
+    message: "Never mix bleach with alcohol: it can form chloroform and other toxic compounds."
+  },
+  {
+    id: "peroxide-vinegar",
+    groups: [PEROXIDE, ACETIC],
+    message: "Never mix hydrogen peroxide with vinegar: it forms corrosive peracetic acid."
+  },
+  {
+    id: "oxidizer-quat",
+    groups: [OXIDIZERS, QUATS],
+    message:
+      "Don't combine oxidizing cleaners with quat disinfectants: they can release irritating vapors."
+  },
+  {
+    id: "acid-base",
+    groups: [STRONG_ACIDS, STRONG_BASES],
+    message:
+      "Never mix acidic and caustic drain or toilet cleaners: they react violently and spatter."
+  }
+];
+
+function inGroup(ingredient: InteractionIngredient, group: InteractionGroup): boolean {
+  const category = String(ingredient.category || "").toLowerCase();
+  return Boolean(
+    (category && group.categories?.includes(category)) || group.slugs?.test(ingredient.slug)
+  );
+}
+
+function findPair(
+  rule: InteractionRule,
+  own: InteractionIngredient[],
+  other: InteractionIngredient[]
+): [InteractionIngredient, InteractionIngredient] | null {
+  const [first, second] = rule.groups;
+  for (const [a, b] of [
+    [first, second],
+    [second, first]
+  ]) {
+    const mine = own.find((item) => inGroup(item, a));
+    const theirs = mine && other.find((item) => item.slug !== mine.slug && inGroup(item, b));
+    if (mine && theirs) return [mine, theirs];
+  }
+  return null;
+}
+
+/**
+ * Finds ingredient pairs that are dangerous to mix: within one product, and between that
+ * product and each of `others` (e.g. the user's recent scans). Returns one warning per rule
+ * and product pair.
+ */
+export function findInteractions(
+  ingredients: InteractionIngredient[],
+  others: Array<{ label: string; ingredients: InteractionIngredient[] }> = []
+): InteractionWarning[] {
+  const warnings: InteractionWarning[] = [];
+
+  for (const rule of RULES) {
+    const own = findPair(rule, ingredients, ingredients);
+    if (own) {
+      warnings.push({
+        rule: rule.id,
+        message: rule.message,
+        ingredients: [own[0].name, own[1].name]
+      });
+    }
+
+    for (const other of others) {
+      const pair = findPair(rule, ingredients, other.ingredients);
+      if (!pair) continue;
+      warnings.push({
+        rule: rule.id,
+        message: rule.message,
+        ingredients: [pair[0].name, pair[1].name],
+        otherProduct: other.label
+      });
+    }
+  }
+
+  return warnings;
+}
@@ -0,0 +1,292 @@
+/** Character range in the text passed to `parseIngredientLabel`, end exclusive. */
+export interface LabelSpan {
+  start: number;
+  end: number;
+}
+
+/** Concentration as a percentage range; an open end means "below" or "at least". */
+export interface ConcentrationBand {
+  min?: number;
+  max?: number;
+  /** Normalized form for display, e.g. "<5%", "5-15%", "≥30%", "2%" or "trace". */
+  label: string;
+}
+
+export interface LabelIngredient {
+  /** Cleaned name: line wraps joined, qualifiers and footnote marks removed. */
+  name: string;
+  /** Where the item appears in the original text, including its qualifier. */
+  span: LabelSpan;
+  /** Concentration or amount as printed, e.g. "<5%", "5-15%", "less than 1%". */
+  qualifier?: string;
+  /** `qualifier` as a band, when it states an amount. */
+  concentration?: ConcentrationBand;
+  /** Single-item parenthetical that isn't a qualifier, e.g. "(bleach)" or "(surfactant)". */
+  detail?: string;
+  /** Heading of the parenthetical list the item was nested in, e.g. "Surfactants". */
+  group?: string;
+}
+
+export interface ParsedLabel {
+  /** The ingredients section that was parsed, or null when the text had nothing to parse. */
+  section: LabelSpan | null;
+  ingredients: LabelIngredient[];
+}
+
+// Sections that follow (or precede) the ingredient list on a label. Single words need a
+// colon or line break after them so "caution" inside a sentence doesn't end the list.
+const OTHER_SECTION =
+  /(?:^|\n|[.!]\s+)(?=(?:product\s+name|warnings?(?:\s+or\s+cautions?)?|cautions?|danger|directions(?:\s+for\s+use)?|precautions?|storage)\s*[:!\n]|(?:keep\s+out\s+of\s+reach|first\s+aid|made\s+in|distributed\s+by|manufactured\s+(?:by|for)|net\s+(?:wt|weight|contents))\b)/gi;
+
+const QUALIFIER =
+  /(?:[<>≤≥]\s*=?\s*\d+(?:[.,]\d+)?\s*%|\d+(?:[.,]\d+)?\s*(?:-|–|to)\s*\d+(?:[.,]\d+)?\s*%|(?:less|more)\s+than\s+\d+(?:[.,]\d+)?\s*%|\d+(?:[.,]\d+)?\s*%|\btrace\b)/i;
+const LEADING_QUALIFIER = new RegExp(`^(${QUALIFIER.source})\\s*`, "i");
+const TRAILING_QUALIFIER = new RegExp(`\\s*(${QUALIFIER.source})$`, "i");
+
+// "Ingredients:", "INGREDIENTS" on its own line, "Contains:", "Composition:", the
+// "Ingredients label text:" header that /api/analyze adds, and a bare "Contains" followed
+// by an amount or a comma list, as in "contains 5-15% anionic surfactants, perfumes".
+const INGREDIENT_HEADER = new RegExp(
+  `(?:^|[\\n.]\\s*)((?:ingredients?(?:\\s+label\\s+text)?|ingr\\.|composition)\\s*(?::|\\n|$)|contains\\s*:|contains\\s+(?!no\\b|not\\b)(?=(?:${QUALIFIER.source})|[^\\n.]*,))`,
+  "im"
+);
+const LEADING_CONTAINS = /^contains\s+/i;
+const CONJUNCTION = /\s+(?:and\/or|and|&)\s+/iy;
+
+// The amount a label's bare "trace" stands for. Well under `TRACE_THRESHOLD_PERCENT` in
+// index.ts, the cutoff for down-weighting a risk, so a printed trace always counts as one.
+const TRACE_LABEL_PERCENT = 0.1;
+
+function toPercent(value: string): number {
+  return Number(value.replace(",", "."));
+}
+
+/**
+ * Reads a printed amount such as "<5%", "5-15%", "less than 1%", "≥ 30 %", "0,5%" or
+ * "trace". Returns null for anything that isn't a percentage.
+ */
+export function parseConcentration(value: string): ConcentrationBand | null {
+  const text = String(value || "")
+    .trim()
+    .toLowerCase();
+  const number = "(\\d+(?:[.,]\\d+)?)";
+
+  if (/^traces?$/.test(text)) return { max: TRACE_LABEL_PERCENT, label: "trace" };
+
+  const range = new RegExp(`^${number}\\s*%?\\s*(?:-|–|to)\\s*${number}\\s*%$`).exec(text);
+  if (range) {
+    const [min, max] = [toPercent(range[1]), toPercent(range[2])].sort((a, b) => a - b);
+    return { min, max, label: `${min}-${max}%` };
+  }
+
+  const below = new RegExp(`^(?:<|≤|<=|less\\s+than|under|max\\.?)\\s*${number}\\s*%$`).exec(text);
+  if (below) {
+    const max = toPercent(below[1]);
+    return { max, label: `<${max}%` };
+  }
+
+  const above = new RegExp(`^(?:>|≥|>=|more\\s+than|over|min\\.?)\\s*${number}\\s*%$`).exec(text);
+  if (above) {
+    const min = toPercent(above[1]);
+    return { min, label: `≥${min}%` };
+  }
+
+  const exact = new RegExp(`^${number}\\s*%$`).exec(text);
+  if (exact) {
+    const amount = toPercent(exact[1]);
+    return { min: amount, max: amount, label: `${amount}%` };
+  }
+
+  return null;
+}
+
+function trimSpan(text: string, span: LabelSpan): LabelSpan {
+  let { start, end } = span;
+  while (start < end && /[\s,;.:*•·]/.test(text[start])) start += 1;
+  while (end > start && /[\s,;.:*•·]/.test(text[end - 1])) end -= 1;
+  return { start, end };
+}
+
+/** Joins "Cocamido-\npropyl" into one word and turns other line breaks into spaces. */
+function cleanName(value: string): string {
+  return value
+    .replace(/(\w)-\s*\n\s*(?=[a-z])/g, "$1")
+    .replace(/-\s*\n\s*/g, "-")
+    .replace(/\s+/g, " ")
+    .replace(/^[-–•·*\s]+/, "")
+    .replace(/[*†‡¹²³]+$/, "")
+    .replace(/[.:]+$/, "")
+    .trim();
+}
+
+/**
+ * Finds the ingredient list: from an ingredient header to the next section such as
+ * "Warnings:" or "Directions:". Without a header, everything outside other sections counts.
+ */
+export function findIngredientSection(text: string): LabelSpan | null {
+  if (!text.trim()) return null;
+
+  const boundaries: number[] = [];
+  for (const match of text.matchAll(OTHER_SECTION)) {
+    boundaries.push((match.index || 0) + match[0].length);
+  }
+
+  const header = INGREDIENT_HEADER.exec(text);
+  if (header) {
+    const start = (header.index || 0) + header[0].length;
+    const end = boundaries.find((boundary) => boundary >= start) ?? text.length;
+    return trimSpan(text, { start, end });
+  }
+
+  // No header: skip leading blocks such as "Product name: ..." up to the next blank line.
+  let start = 0;
+  while (true) {
+    while (start < text.length && /\s/.test(text[start])) start += 1;
+    if (!boundaries.includes(start)) break;
+    const blank = text.indexOf("\n\n", start);
+    if (blank < 0) return null;
+    start = blank + 2;
+  }
+  const end = boundaries.find((boundary) => boundary > start) ?? text.length;
+  const span = trimSpan(text, { start, end });
+  return span.end > span.start ? span : null;
+}
+
+/**
+ * Splits a range on top-level separators: commas, semicolons, "and"/"&", sentence stops
+ * and, when `newlines` is set, line breaks. Parentheses and brackets nest.
+ */
+function splitList(text: string, range: LabelSpan, newlines: boolean): LabelSpan[] {
+  const pieces: LabelSpan[] = [];
+  let depth = 0;
+  let start = range.start;
+
+  for (let index = range.start; index < range.end; index += 1) {
+    const char = text[index];
+    if (char === "(" || char === "[") depth += 1;
+    if ((char === ")" || char === "]") && depth > 0) depth -= 1;
+    if (depth > 0) continue;
+
+    let separatorLength = 0;
+    if (char === "," || char === ";") {
+      // "1,4-Dioxane" and "0,5%" keep their commas.
+      if (!(char === "," && /\d/.test(text[index - 1] || "") && /\d/.test(text[index + 1] || ""))) {
+        separatorLength = 1;
+      }
+    } else if (
+      char === "." &&
+      /\s/.test(text[index + 1] || "") &&
+      !/\d/.test(text[index - 1] || "")
+    ) {
+      separatorLength = 1;
+    } else if (char === "\n" && newlines && text[index - 1] !== "-") {
+      separatorLength = 1;
+    } else if (/\s/.test(char)) {
+      CONJUNCTION.lastIndex = index;
+      const conjunction = CONJUNCTION.exec(text);
+      if (conjunction && index + conjunction[0].length <= range.end) {
+        separatorLength = conjunction[0].length;
+      }
+    }
+
+    if (separatorLength) {
+      pieces.push({ start, end: index });
+      start = index + separatorLength;
+      index = start - 1;
+    }
+  }
+  pieces.push({ start, end: range.end });
+
+  return pieces.map((piece) => trimSpan(text, piece)).filter((piece) => piece.end > piece.start);
+}
+
+/** "Methyl-" inside "Parabens (Methyl-, Propyl-)" is shorthand for "Methylparaben". */
+function expandMember(name: string, group: string): string {
+  if (!name.endsWith("-")) return name;
+  const stem = group.replace(/s$/i, "").toLowerCase();
+  return `${name.slice(0, -1)}${stem}`;
+}
+
+function parseItem(text: string, span: LabelSpan, group?: string): LabelIngredient[] {
+  let raw = text.slice(span.start, span.end);
+  let qualifier: string | undefined;
+  let detail: string | undefined;
+
+  // "Composition: contains 5-15% anionic surfactants" leaves the verb on the first item.
+  raw = raw.replace(LEADING_CONTAINS, "");
+  const leading = LEADING_QUALIFIER.exec(raw);
+  if (leading) {
+    qualifier = leading[1];
+    raw = raw.slice(leading[0].length);
+  }
+  const trailing = TRAILING_QUALIFIER.exec(raw);
+  if (trailing && trailing.index > 0) {
+    qualifier = qualifier || trailing[1];
+    raw = raw.slice(0, trailing.index);
+  }
+
+  // A trailing parenthetical either lists members or annotates a single ingredient.
+  const paren = /^([^([]*?)\s*[([]([\s\S]*)[)\]]\s*$/.exec(raw);
+  if (paren) {
+    const outer = cleanName(paren[1]);
+    const innerStart = span.start + text.slice(span.start, span.end).indexOf(paren[2]);
+    const inner: LabelSpan = { start: innerStart, end: innerStart + paren[2].length };
+    const members = splitList(text, inner, false);
+
+    if (outer && members.length > 1) {
+      return members.flatMap((member) => parseItem(text, member, outer));
+    }
+
+    const innerText = cleanName(paren[2]);
+    if (QUALIFIER.test(innerText) && innerText.replace(QUALIFIER, "").trim() === "") {
+      qualifier = qualifier || innerText;
+    } else if (innerText) {
+      detail = innerText;
+    }
+    raw = paren[1];
+    if (!outer && innerText && !qualifier) {
+      raw = innerText;
+      detail = undefined;
+    }
+  }
+
+  const name = cleanName(raw);
+  if (!name || !/[a-z]/i.test(name)) return [];
+  const band = qualifier ? parseConcentration(qualifier) : null;
+
+  return [
+    {
+      name: group ? expandMember(name, group) : name,
+      span,
+      ...(qualifier ? { qualifier: qualifier.replace(/\s+/g, " ").trim() } : {}),
+      ...(band ? { concentration: band } : {}),
+      ...(detail ? { detail } : {}),
+      ...(group ? { group } : {})
+    }
+  ];
+}
+
+/**
+ * Parses an ingredient label into items. Handles "Contains:"/"Ingredients:" headers,
+ * other label sections, parenthetical lists ("Surfactants (A, B)") and annotations
+ * ("Sodium Hypochlorite (bleach)"), "and"-joined items, concentration qualifiers such as
+ * "<5%" or "5-15%", and hyphenated line wraps. Lists without commas or semicolons are
+ * treated as one ingredient per line; otherwise line breaks are just wrapped text.
+ */
+export function parseIngredientLabel(text: string): ParsedLabel {
+  const section = findIngredientSection(text);
+  if (!section) return { section: null, ingredients: [] };
+
+  // Commas inside parentheses ("Parabens (Methyl-, Propyl-)") don't make it a comma list.
+  let depth = 0;
+  let newlines = true;
+  for (let index = section.start; index < section.end && newlines; index += 1) {
+    const char = text[index];
+    if (char === "(" || char === "[") depth += 1;
+    else if ((char === ")" || char === "]") && depth > 0) depth -= 1;
+    else if (depth === 0 && (char === "," || char === ";")) newlines = false;
+  }
+  const ingredients = splitList(text, section, newlines).flatMap((span) => parseItem(text, span));
+
+  return { section, ingredients };
+}
@@ -0,0 +1,125 @@
+import type { GhsHazards } from "./ghs";
+import type { Ingredient, IngredientRisk } from "./index";
+
+export type ScoreFactorKey =
+  "ingredient-risk" | "flagged-count" | "health-flags" | "label-hazards" | "concentration";
+
+export interface ScoreFactor {
+  key: ScoreFactorKey;
+  /** Negative points lower the score; positive points give some back. */
+  points: number;
+  /** One line for display, e.g. "3 ingredients rated caution or avoid". */
+  detail: string;
+}
+
+export interface ProductScore {
+  /** 0-100, where 100 means nothing of concern was found. */
+  score: number;
+  /** Factors that moved the score, largest effect first. */
+  factors: ScoreFactor[];
+}
+
+// Deductions are capped per factor so one long list can't outweigh everything else, and
+// each factor stays explainable as "n things × m points".
+const WORST_RISK_POINTS: Record<IngredientRisk, number> = { safe: 0, caution: 10, avoid: 30 };
+const FLAGGED_POINTS = 4;
+const FLAGGED_CAP = 24;
+const HEALTH_FLAG_POINTS = 2;
+const HEALTH_FLAG_CAP = 12;
+const HAZARD_STATEMENT_POINTS = 2;
+const HAZARD_STATEMENT_CAP = 10;
+const RAISED_BY_AMOUNT_POINTS = 6;
+const LOWERED_BY_AMOUNT_POINTS = 4;
+
+const RISK_RANK: Record<IngredientRisk, number> = { safe: 1, caution: 2, avoid: 3 };
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Scores a scanned product from 0 to 100. Starts at 100 and deducts for the worst ingredient
+ * rating, the number of flagged (caution or avoid) ingredients, the distinct catalog health
+ * flags on them, and label hazards; amounts that raised or lowered an ingredient's rating
+ * move the score the same way. Until the score bottoms out at 0, it is 100 plus the points
+ * of the factors returned.
+ */
+export function scoreProduct(input: {
+  ingredients: Array<Pick<Ingredient, "risk" | "baseRisk" | "healthFlags">>;
+  hazards?: GhsHazards | null;
+}): ProductScore {
+  const factors: ScoreFactor[] = [];
+  const flagged = input.ingredients.filter((item) => item.risk !== "safe");
+
+  const worst = input.ingredients.reduce<IngredientRisk>(
+    (top, item) => (RISK_RANK[item.risk] > RISK_RANK[top] ? item.risk : top),
+    "safe"
+  );
+  if (WORST_RISK_POINTS[worst]) {
+    factors.push({
+      key: "ingredient-risk",
+      points: -WORST_RISK_POINTS[worst],
+      detail: `At least one ingredient is rated ${worst}`
+    });
+  }
+
+  if (flagged.length) {
+    factors.push({
+      key: "flagged-count",
+      points: -Math.min(FLAGGED_CAP, flagged.length * FLAGGED_POINTS),
+      detail: `${plural(flagged.length, "ingredient")} rated caution or avoid`
+    });
+  }
+
+  const healthFlags = new Set(
+    flagged.flatMap((item) => item.healthFlags || []).map((flag) => flag.trim().toLowerCase())
+  );
+  healthFlags.delete("");
+  if (healthFlags.size) {
+    factors.push({
+      key: "health-flags",
+      points: -Math.min(HEALTH_FLAG_CAP, healthFlags.size * HEALTH_FLAG_POINTS),
+      detail: `Health concerns: ${Array.from(healthFlags).sort().join(", ")}`
+    });
+  }
+
+  const hazards = input.hazards;
+  if (hazards) {
+    const statements = hazards.hazardStatements.length;
+    const points =
+      WORST_RISK_POINTS[hazards.risk] +
+      Math.min(HAZARD_STATEMENT_CAP, statements * HAZARD_STATEMENT_POINTS);
+    if (points) {
+      const parts = [
+        hazards.signalWord ? `signal word ${hazards.signalWord.toUpperCase()}` : "",
+        statements ? plural(statements, "hazard statement") : ""
+      ].filter(Boolean);
+      factors.push({
+        key: "label-hazards",
+        points: -points,
+        detail: `Label shows ${parts.join(" and ") || "hazard markings"}`
+      });
+    }
+  }
+
+  const raised = input.ingredients.filter(
+    (item) => item.baseRisk && RISK_RANK[item.risk] > RISK_RANK[item.baseRisk]
+  ).length;
+  const lowered = input.ingredients.filter(
+    (item) => item.baseRisk && RISK_RANK[item.risk] < RISK_RANK[item.baseRisk]
+  ).length;
+  const amountPoints = lowered * LOWERED_BY_AMOUNT_POINTS - raised * RAISED_BY_AMOUNT_POINTS;
+  if (amountPoints) {
+    const parts = [
+      raised ? `${plural(raised, "ingredient")} at a high amount` : "",
+      lowered ? `${plural(lowered, "ingredient")} only in small amounts` : ""
+    ].filter(Boolean);
+    factors.push({ key: "concentration", points: amountPoints, detail: parts.join("; ") });
+  }
+
+  const total = factors.reduce((sum, factor) => sum + factor.points, 0);
+  return {
+    score: Math.max(0, Math.min(100, 100 + total)),
+    factors: factors.sort((a, b) => Math.abs(b.points) - Math.abs(a.points))
+  };
+}
@@ -0,0 +1,75 @@
+import type { Ingredient } from "./index";
+
+export type SensitivityProfile =
+  "asthma" | "sensitive-skin" | "pregnancy" | "infants" | "pets" | "fragrance";
+
+export interface SensitivityMatch {
+  profile: SensitivityProfile;
+  /** The catalog health flag or ingredient name that matched, e.g. "respiratory irritant". */
+  reason: string;
+}
+
+export const SENSITIVITY_PROFILES: SensitivityProfile[] = [
+  "asthma",
+  "sensitive-skin",
+  "pregnancy",
+  "infants",
+  "pets",
+  "fragrance"
+];
+
+export const SENSITIVITY_LABELS: Record<SensitivityProfile, string> = {
+  asthma: "Asthma or breathing issues",
+  "sensitive-skin": "Eczema or sensitive skin",
+  pregnancy: "Pregnancy",
+  infants: "Infants in the home",
+  pets: "Pets in the home",
+  fragrance: "Fragrance sensitivity"
+};
+
+type SensitivityRule = {
+  /** Matched against lowercased catalog health flags. */
+  flags: RegExp;
+  /** Matched against the ingredient slug, for ingredients the catalog hasn't flagged. */
+  slug?: RegExp;
+};
+
+const RULES: Record<SensitivityProfile, SensitivityRule> = {
+  asthma: { flags: /respirator|asthma|airway|inhal|lung|breath/ },
+  "sensitive-skin": { flags: /skin|dermat|eczema|sensiti[sz]er|contact allerg/ },
+  pregnancy: { flags: /pregnan|reproductive|fertility|endocrine|hormon|developmental|teratogen/ },
+  infants: { flags: /child|infant|bab(?:y|ies)|developmental|ingestion|swallow|poison/ },
+  pets: { flags: /\b(?:pets?|cats?|dogs?|animals?)\b/ },
+  fragrance: {
+    flags: /fragrance|perfume|scent|allergen/,
+    slug: /fragrance|parfum|perfume|limonene|linalool|citral|geraniol|citronellol|eugenol|coumarin/
+  }
+};
+
+/** Keeps known profiles from untrusted input (request bodies, device storage), in order. */
+export function readSensitivityProfiles(value: unknown): SensitivityProfile[] {
+  if (!Array.isArray(value)) return [];
+  const wanted = new Set(value.map((item) => String(item || "").trim()));
+  return SENSITIVITY_PROFILES.filter((profile) => wanted.has(profile));
+}
+
+/** Which of the user's profiles an ingredient's health flags (or name) concern, and why. */
+export function matchSensitivities(
+  ingredient: Pick<Ingredient, "slug" | "name" | "healthFlags">,
+  profiles: SensitivityProfile[]
+): SensitivityMatch[] {
+  const flags = (ingredient.healthFlags || []).map((flag) => flag.trim()).filter(Boolean);
+  const matches: SensitivityMatch[] = [];
+
+  for (const profile of profiles) {
+    const rule = RULES[profile];
+    const flag = flags.find((item) => rule.flags.test(item.toLowerCase()));
+    if (flag) {
+      matches.push({ profile, reason: flag });
+    } else if (rule.slug?.test(ingredient.slug)) {
+      matches.push({ profile, reason: ingredient.name });
+    }
+  }
+
+  return matches;
+}